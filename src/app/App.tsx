@@ -1,6 +1,7 @@
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { RegionSelectionPage } from "@pages/region-selection";
 import { HomePage } from "@pages/home";
+import { EvaluationPage } from "@pages/evaluation";
 
 function App() {
   return (
@@ -8,6 +9,7 @@ function App() {
       <Routes>
         <Route path="/" element={<HomePage />} />
         <Route path="/region-selection/:audioId" element={<RegionSelectionPage />} />
+        <Route path="/evaluation" element={<EvaluationPage />} />
       </Routes>
     </BrowserRouter>
   );
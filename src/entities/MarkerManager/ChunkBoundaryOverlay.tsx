@@ -0,0 +1,60 @@
+import React from 'react';
+import WaveSurfer from 'wavesurfer.js';
+import { ChunkWindow, getChunkBoundaries } from './utils/chunkBoundaryAnalysis';
+
+interface ChunkBoundaryOverlayProps {
+  wavesurfer: WaveSurfer | null;
+  /** Chunks the current file was split into for predictions */
+  chunks: ChunkWindow[];
+  beginTime?: number;
+  endTime?: number;
+}
+
+/**
+ * Draws the boundaries between prediction chunks as dashed vertical lines on a waveform
+ */
+export const ChunkBoundaryOverlay: React.FC<ChunkBoundaryOverlayProps> = ({
+  wavesurfer,
+  chunks,
+  beginTime: beginTimeProp,
+  endTime: endTimeProp,
+}) => {
+  const totalDuration = wavesurfer ? wavesurfer.getDuration() : 0;
+  if (!wavesurfer || !totalDuration) return null;
+
+  const beginTime = beginTimeProp ?? 0;
+  const endTime = endTimeProp ?? totalDuration;
+  const visibleDuration = endTime - beginTime;
+  if (visibleDuration <= 1e-6) return null;
+
+  const boundaries = getChunkBoundaries(chunks).filter(
+    (time) => time >= beginTime && time <= endTime
+  );
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        width: '100%',
+        height: '100%',
+        pointerEvents: 'none',
+        zIndex: 8,
+      }}
+    >
+      {boundaries.map((time) => (
+        <div
+          key={time}
+          style={{
+            position: 'absolute',
+            top: 0,
+            bottom: 0,
+            left: `${((time - beginTime) / visibleDuration) * 100}%`,
+            borderLeft: '1px dashed #607D8B',
+          }}
+        />
+      ))}
+    </div>
+  );
+};
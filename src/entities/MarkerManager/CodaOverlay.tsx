@@ -0,0 +1,84 @@
+import React from 'react';
+import WaveSurfer from 'wavesurfer.js';
+import { Coda, SelectionGroup } from './model/types';
+
+interface CodaOverlayProps {
+  wavesurfer: WaveSurfer | null;
+  codas: Coda[];
+  selectionGroups: SelectionGroup[];
+  beginTime?: number;
+  endTime?: number;
+  currentAudioId?: string;
+}
+
+/**
+ * Draws codas as labelled spans along the bottom of a waveform
+ */
+export const CodaOverlay: React.FC<CodaOverlayProps> = ({
+  wavesurfer,
+  codas,
+  selectionGroups,
+  beginTime: beginTimeProp,
+  endTime: endTimeProp,
+  currentAudioId,
+}) => {
+  const totalDuration = wavesurfer ? wavesurfer.getDuration() : 0;
+  if (!wavesurfer || !totalDuration) return null;
+
+  const beginTime = beginTimeProp ?? 0;
+  const endTime = endTimeProp ?? totalDuration;
+  const visibleDuration = endTime - beginTime;
+  if (visibleDuration <= 1e-6) return null;
+
+  // Number codas per file in time order so that labels match the coda table
+  const fileCodas = codas
+    .filter((coda) => !currentAudioId || coda.audioId === currentAudioId)
+    .sort((a, b) => a.beginTime - b.beginTime);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        width: '100%',
+        height: '100%',
+        pointerEvents: 'none',
+        zIndex: 9,
+      }}
+    >
+      {fileCodas.map((coda, index) => {
+        if (coda.endTime < beginTime || coda.beginTime > endTime) return null;
+
+        const color = selectionGroups.find((group) => group.id === coda.groupId)?.color ?? '#555';
+        const start = Math.max(coda.beginTime, beginTime);
+        const end = Math.min(coda.endTime, endTime);
+
+        return (
+          <div
+            key={coda.id}
+            title={`Coda ${index + 1}: ${coda.beginTime.toFixed(3)}s – ${coda.endTime.toFixed(3)}s`}
+            style={{
+              position: 'absolute',
+              bottom: 0,
+              height: '14px',
+              left: `${((start - beginTime) / visibleDuration) * 100}%`,
+              width: `max(2px, ${((end - start) / visibleDuration) * 100}%)`,
+              backgroundColor: `${color}33`,
+              borderTop: `2px solid ${color}`,
+              fontSize: '10px',
+              lineHeight: '12px',
+              color,
+              whiteSpace: 'nowrap',
+              overflow: 'visible',
+              // Only the labelled spans take the pointer, so that their tooltips show
+              pointerEvents: 'auto',
+            }}
+          >
+            C{index + 1}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
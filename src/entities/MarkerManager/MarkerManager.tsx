@@ -1,14 +1,39 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import WaveSurfer from 'wavesurfer.js';
-import { SelectionGroup, SelectionVisibility } from './model/types';
+import { CategoryVisibility, Selection, SelectionGroup, SelectionVisibility } from './model/types';
+import { isSelectionAboveThreshold, isSelectionCategoryVisible } from './model/selectionFilters';
+import { ClickCategoryConfig, getClickCategory } from '@/shared/config/clickCategories';
+import { EvaluationMetrics, MATCH_OUTCOMES, getMatchOutcomes } from './utils/evaluationMetrics';
 
 interface MarkerManagerProps {
   wavesurfer: WaveSurfer | null;
   selectionGroups: SelectionGroup[];
   visibility: SelectionVisibility;
+  /** Click categories to show; all categories are shown when not set */
+  categoryVisibility?: CategoryVisibility;
+  /** Selections with a lower confidence score are hidden; selections without a score are shown */
+  confidenceThreshold?: number;
+  /**
+   * Evaluation view: evaluated clicks are colored by their match outcome and matched pairs are
+   * joined by a connector
+   */
+  evaluation?: EvaluationMetrics | null;
   beginTime?: number;
   endTime?: number;
   currentAudioId?: string;
+  /** Sample rate of the source audio, used to snap dragged markers to whole samples */
+  sampleRate?: number;
+  /** When set, markers of editable groups can be removed with a right-click */
+  onSelectionRemove?: (groupId: string, selectionId: string) => void;
+  /** When set, markers of editable groups can be dragged to a new time */
+  onSelectionMove?: (groupId: string, selectionId: string, beginTime: number) => void;
+  /** Called once a drag is finished, with the time before and after the drag */
+  onSelectionMoveEnd?: (
+    groupId: string,
+    selectionId: string,
+    fromTime: number,
+    toTime: number
+  ) => void;
 }
 
 interface MarkerProps {
@@ -16,19 +41,143 @@ interface MarkerProps {
   duration: number;
   color: string;
   title: string;
+  category?: ClickCategoryConfig;
+  tooltip?: string;
+  onContextMenu?: (event: React.MouseEvent) => void;
+  onPointerDown?: (event: React.PointerEvent<HTMLDivElement>) => void;
+  onPointerMove?: (event: React.PointerEvent<HTMLDivElement>) => void;
+  onPointerUp?: (event: React.PointerEvent<HTMLDivElement>) => void;
 }
 
+/**
+ * State of the marker currently being dragged
+ */
+interface DragState {
+  groupId: string;
+  selectionId: string;
+  startTime: number;
+  time: number;
+}
+
+/**
+ * Line style of a marker: solid for uncategorized clicks, otherwise the style of the category
+ */
+const getLineStyle = (color: string, category?: ClickCategoryConfig): React.CSSProperties =>
+  category && category.lineStyle !== 'solid'
+    ? { width: 0, borderLeft: `2px ${category.lineStyle} ${color}` }
+    : { width: '2px', backgroundColor: color };
+
+/**
+ * Thin horizontal line joining a matched ground truth click and prediction
+ */
+const MatchConnector: React.FC<{
+  start: number;
+  end: number;
+  duration: number;
+  offset: number;
+}> = ({ start, end, duration, offset }) => (
+  <div
+    style={{
+      position: 'absolute',
+      top: '50%',
+      left: `${(start / duration) * 100}%`,
+      width: `${((end - start) / duration) * 100}%`,
+      minWidth: '1px',
+      height: '2px',
+      backgroundColor: MATCH_OUTCOMES.matched.color,
+      zIndex: 100,
+    }}
+    title={`Offset ${(offset * 1000).toFixed(3)} ms`}
+  />
+);
+
+/**
+ * Small dot at the top of a marker showing its click category
+ */
+const CategoryBadge: React.FC<{ category: ClickCategoryConfig; offset: number }> = ({
+  category,
+  offset,
+}) => (
+  <div style={{
+    position: 'absolute',
+    top: 0,
+    left: `${offset}px`,
+    width: '6px',
+    height: '6px',
+    borderRadius: '50%',
+    backgroundColor: category.color,
+    border: '1px solid white',
+    pointerEvents: 'none',
+  }} />
+);
+
 const Marker: React.FC<MarkerProps> = ({
   time,
   duration,
   color,
-  title
+  title,
+  category,
+  tooltip,
+  onContextMenu,
+  onPointerDown,
+  onPointerMove,
+  onPointerUp
 }) => {
+  if (onContextMenu || onPointerDown) {
+    // Interactive markers get a wider, invisible hit area around the 2px line
+    return (
+      <div
+        style={{
+          position: 'absolute',
+          height: '100%',
+          width: '8px',
+          left: `calc(${(time / duration) * 100}% - 3px)`,
+          top: 0,
+          zIndex: tooltip ? 102 : 101,
+          cursor: onPointerDown ? 'ew-resize' : 'pointer',
+          pointerEvents: 'auto',
+          touchAction: 'none',
+        }}
+        title={tooltip ? undefined : title}
+        onContextMenu={onContextMenu}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+      >
+        <div style={{
+          ...getLineStyle(color, category),
+          height: '100%',
+          marginLeft: '3px',
+          boxShadow: '0 0 2px rgba(0, 0, 0, 0.5)',
+        }} />
+
+        {category && <CategoryBadge category={category} offset={0} />}
+
+        {tooltip && (
+          <div style={{
+            position: 'absolute',
+            top: '2px',
+            left: '10px',
+            padding: '2px 6px',
+            backgroundColor: 'rgba(0, 0, 0, 0.75)',
+            color: 'white',
+            fontSize: '11px',
+            borderRadius: '3px',
+            whiteSpace: 'nowrap',
+            pointerEvents: 'none',
+          }}>
+            {tooltip}
+          </div>
+        )}
+      </div>
+    );
+  }
+
   const style: React.CSSProperties = {
     position: 'absolute',
     height: '100%',
-    width: '2px',
-    backgroundColor: color,
+    ...getLineStyle(color, category),
     left: `${(time / duration) * 100}%`,
     top: 0,
     zIndex: 100,
@@ -36,7 +185,11 @@ const Marker: React.FC<MarkerProps> = ({
     boxShadow: '0 0 2px rgba(0, 0, 0, 0.5)',
   };
 
-  return <div style={style} title={title} />;
+  return (
+    <div style={style} title={title}>
+      {category && <CategoryBadge category={category} offset={-3} />}
+    </div>
+  );
 };
 
 /**
@@ -46,26 +199,56 @@ export const MarkerManager: React.FC<MarkerManagerProps> = ({
   wavesurfer,
   selectionGroups,
   visibility,
+  categoryVisibility,
+  confidenceThreshold,
+  evaluation,
   beginTime: beginTimeProp,
   endTime: endTimeProp,
-  currentAudioId
+  currentAudioId,
+  sampleRate,
+  onSelectionRemove,
+  onSelectionMove,
+  onSelectionMoveEnd
 }) => {
-  if (!wavesurfer) return null;
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [dragState, setDragState] = useState<DragState | null>(null);
 
-  const totalWaveformDuration = wavesurfer.getDuration();
-  if (!totalWaveformDuration) return null;
+  const totalWaveformDuration = wavesurfer ? wavesurfer.getDuration() : 0;
 
   const beginTime = beginTimeProp !== undefined ? beginTimeProp : 0;
   const endTime = endTimeProp !== undefined ? endTimeProp : totalWaveformDuration;
 
+  const matchOutcomes = useMemo(
+    () => (evaluation ? getMatchOutcomes(evaluation) : null),
+    [evaluation]
+  );
+
   const markers = useMemo(() => {
     const visibleDuration = endTime - beginTime;
 
-    if (visibleDuration <= 1e-6) {
+    if (!totalWaveformDuration || visibleDuration <= 1e-6) {
       return [];
     }
 
+    /**
+     * Convert a pointer position to a time in the original audio, snapped to sample resolution
+     */
+    const getTimeFromPointer = (clientX: number): number | null => {
+      const overlay = overlayRef.current;
+      if (!overlay) return null;
+
+      const rect = overlay.getBoundingClientRect();
+      if (rect.width <= 0) return null;
+
+      const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+      const time = beginTime + ratio * visibleDuration;
+
+      return sampleRate ? Math.round(time * sampleRate) / sampleRate : time;
+    };
+
     const allMarkers: React.ReactElement[] = [];
+    // Selections of visible groups and categories, which matched pairs may be joined between
+    const shownSelections = new Set<Selection>();
 
     // Process each selection group
     selectionGroups.forEach(group => {
@@ -91,40 +274,147 @@ export const MarkerManager: React.FC<MarkerManagerProps> = ({
         })
         : group.selections;
 
-      // Only show begin times for relevant selections
+      // Only show begin times for relevant selections of visible categories above the threshold
       relevantSelections.forEach(selection => {
+        if (
+          !isSelectionCategoryVisible(selection, categoryVisibility)
+          || !isSelectionAboveThreshold(selection, confidenceThreshold)
+        ) {
+          return;
+        }
+
+        shownSelections.add(selection);
+
         const actualTime = selection.beginTime;
+        const category = getClickCategory(selection.category);
+        const categoryLabel = category ? ` [${category.name}]` : '';
+        const confidenceLabel = selection.confidence !== undefined
+          ? ` (score ${selection.confidence.toFixed(2)})`
+          : '';
+        const outcome = matchOutcomes?.get(selection);
+        const outcomeLabel = outcome ? ` - ${MATCH_OUTCOMES[outcome].label}` : '';
+        const color = outcome ? MATCH_OUTCOMES[outcome].color : group.color;
 
         if (actualTime >= beginTime && actualTime <= endTime) {
           const relativeTime = actualTime - beginTime;
+          const isRemovable = group.editable && onSelectionRemove;
+          const isDraggable = group.editable && onSelectionMove;
+          const isDragging = dragState?.groupId === group.id
+            && dragState.selectionId === selection.id;
 
           allMarkers.push(
             <Marker
               key={`begin-${group.id}-${selection.id}`}
               time={relativeTime}
               duration={visibleDuration}
-              color={group.color}
-              title={`${group.name} ${selection.id}`}
+              color={color}
+              category={category}
+              title={(isRemovable
+                ? `${group.name}${categoryLabel} ${actualTime.toFixed(3)}s (right-click to delete)`
+                : `${group.name}${categoryLabel} ${selection.id}${confidenceLabel}`) + outcomeLabel}
+              tooltip={isDragging ? `${dragState.time.toFixed(5)}s` : undefined}
+              onContextMenu={isRemovable
+                ? (event) => {
+                  event.preventDefault();
+                  onSelectionRemove(group.id, selection.id);
+                }
+                : undefined}
+              onPointerDown={isDraggable
+                ? (event) => {
+                  if (event.button !== 0) return;
+                  event.preventDefault();
+                  event.stopPropagation();
+                  event.currentTarget.setPointerCapture(event.pointerId);
+                  setDragState({
+                    groupId: group.id,
+                    selectionId: selection.id,
+                    startTime: selection.beginTime,
+                    time: selection.beginTime,
+                  });
+                }
+                : undefined}
+              onPointerMove={isDragging
+                ? (event) => {
+                  const time = getTimeFromPointer(event.clientX);
+                  if (time === null || time === dragState.time) return;
+
+                  setDragState({ ...dragState, time });
+                  onSelectionMove!(group.id, selection.id, time);
+                }
+                : undefined}
+              onPointerUp={isDragging
+                ? (event) => {
+                  event.currentTarget.releasePointerCapture(event.pointerId);
+                  setDragState(null);
+
+                  if (onSelectionMoveEnd && dragState.time !== dragState.startTime) {
+                    onSelectionMoveEnd(group.id, selection.id, dragState.startTime, dragState.time);
+                  }
+                }
+                : undefined}
             />
           );
         }
       });
     });
 
+    // Join matched pairs that are at least partly in view and whose markers are both shown
+    evaluation?.matches.forEach(match => {
+      if (!shownSelections.has(match.groundTruth) || !shownSelections.has(match.prediction)) {
+        return;
+      }
+
+      const start = Math.min(match.groundTruth.beginTime, match.prediction.beginTime);
+      const end = Math.max(match.groundTruth.beginTime, match.prediction.beginTime);
+
+      if (end >= beginTime && start <= endTime) {
+        allMarkers.push(
+          <MatchConnector
+            key={`match-${match.groundTruth.id}-${match.prediction.id}`}
+            start={Math.max(start, beginTime) - beginTime}
+            end={Math.min(end, endTime) - beginTime}
+            duration={visibleDuration}
+            offset={match.offset}
+          />
+        );
+      }
+    });
+
     return allMarkers;
-  }, [selectionGroups, visibility, beginTime, endTime, currentAudioId]);
+  }, [
+    selectionGroups,
+    visibility,
+    categoryVisibility,
+    confidenceThreshold,
+    evaluation,
+    matchOutcomes,
+    beginTime,
+    endTime,
+    totalWaveformDuration,
+    currentAudioId,
+    sampleRate,
+    dragState,
+    onSelectionRemove,
+    onSelectionMove,
+    onSelectionMoveEnd,
+  ]);
+
+  if (!wavesurfer || !totalWaveformDuration) return null;
 
   return (
-    <div style={{
-      position: 'absolute',
-      left: 0,
-      top: 0,
-      width: '100%',
-      height: '100%',
-      pointerEvents: 'none',
-      zIndex: 10
-    }}>
+    <div
+      ref={overlayRef}
+      style={{
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        width: '100%',
+        height: '100%',
+        pointerEvents: 'none',
+        zIndex: 10
+      }}
+    >
       {markers}
     </div>
   );
-}; 
\ No newline at end of file
+};
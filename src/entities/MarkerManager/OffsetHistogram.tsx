@@ -0,0 +1,142 @@
+import React, { useMemo } from 'react';
+import {
+  OffsetStatistics,
+  calculateOffsetStatistics,
+  createOffsetHistogram,
+} from './utils/offsetAnalysis';
+
+interface OffsetHistogramProps {
+  /** Signed offsets of matched clicks (seconds, candidate minus reference) */
+  offsets: number[];
+  /** Matching tolerance (ms), the largest possible offset */
+  toleranceMs: number;
+  binCount?: number;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const MARGIN = { top: 10, right: 15, bottom: 30, left: 40 };
+
+const formatMs = (seconds: number) => `${(seconds * 1000).toFixed(3)} ms`;
+
+/**
+ * Mean, median and spread of the offsets
+ */
+const OffsetSummary: React.FC<{ statistics: OffsetStatistics }> = ({ statistics }) => (
+  <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', marginBottom: '4px' }}>
+    <span>
+      Pairs: <strong>{statistics.count}</strong>
+    </span>
+    <span>
+      Mean: <strong>{formatMs(statistics.mean)}</strong>
+    </span>
+    <span>
+      Median: <strong>{formatMs(statistics.median)}</strong>
+    </span>
+    <span title='Sample standard deviation'>
+      SD: <strong>{formatMs(statistics.standardDeviation)}</strong>
+    </span>
+    <span style={{ color: '#666' }}>
+      Range {formatMs(statistics.min)} to {formatMs(statistics.max)}
+    </span>
+  </div>
+);
+
+/**
+ * Histogram of signed timing offsets between matched clicks, with their statistics
+ *
+ * A mean far from zero compared to the standard deviation points to a systematic lag rather
+ * than timing noise.
+ */
+export const OffsetHistogram: React.FC<OffsetHistogramProps> = ({
+  offsets,
+  toleranceMs,
+  binCount = 40,
+}) => {
+  const range = toleranceMs / 1000;
+  const statistics = useMemo(() => calculateOffsetStatistics(offsets), [offsets]);
+  const bins = useMemo(
+    () => createOffsetHistogram(offsets, range, binCount),
+    [offsets, range, binCount]
+  );
+
+  if (!statistics || bins.length === 0) {
+    return <div style={{ color: '#999' }}>No matched pairs.</div>;
+  }
+
+  const plotWidth = CHART_WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+  const maxCount = Math.max(...bins.map((bin) => bin.count));
+  const x = (offset: number) => MARGIN.left + ((offset + range) / (2 * range)) * plotWidth;
+  const y = (count: number) => MARGIN.top + (1 - count / maxCount) * plotHeight;
+
+  return (
+    <div>
+      <OffsetSummary statistics={statistics} />
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        style={{ width: '100%', maxWidth: `${CHART_WIDTH}px`, display: 'block' }}
+      >
+        {bins.map((bin) => (
+          <rect
+            key={bin.start}
+            x={x(bin.start) + 0.5}
+            y={y(bin.count)}
+            width={Math.max(0, x(bin.end) - x(bin.start) - 1)}
+            height={MARGIN.top + plotHeight - y(bin.count)}
+            fill='#78909C'
+          >
+            <title>
+              {formatMs(bin.start)} to {formatMs(bin.end)}: {bin.count}
+            </title>
+          </rect>
+        ))}
+
+        {/* Zero offset and mean offset */}
+        <line x1={x(0)} x2={x(0)} y1={MARGIN.top} y2={MARGIN.top + plotHeight} stroke='#333' />
+        <line
+          x1={x(statistics.mean)}
+          x2={x(statistics.mean)}
+          y1={MARGIN.top}
+          y2={MARGIN.top + plotHeight}
+          stroke='#F44336'
+          strokeDasharray='4 3'
+        >
+          <title>Mean offset {formatMs(statistics.mean)}</title>
+        </line>
+
+        <line
+          x1={MARGIN.left}
+          x2={MARGIN.left + plotWidth}
+          y1={MARGIN.top + plotHeight}
+          y2={MARGIN.top + plotHeight}
+          stroke='#999'
+        />
+        {[-range, -range / 2, 0, range / 2, range].map((tick) => (
+          <text
+            key={tick}
+            x={x(tick)}
+            y={MARGIN.top + plotHeight + 14}
+            fontSize='10'
+            textAnchor='middle'
+            fill='#666'
+          >
+            {(tick * 1000).toFixed(2)}
+          </text>
+        ))}
+        <text x={MARGIN.left - 6} y={MARGIN.top + 8} fontSize='10' textAnchor='end' fill='#666'>
+          {maxCount}
+        </text>
+        <text
+          x={MARGIN.left + plotWidth / 2}
+          y={CHART_HEIGHT - 2}
+          fontSize='10'
+          textAnchor='middle'
+          fill='#666'
+        >
+          Offset (ms, candidate minus reference)
+        </text>
+      </svg>
+    </div>
+  );
+};
@@ -5,11 +5,29 @@
  * chunking, prediction requests, and marker updates.
  */
 
-import React, { useState, useCallback, useRef, useMemo } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { Selection, SelectionGroup } from './model/types';
-import { chunkAudio, ChunkingConfig } from '@/shared/stores/wavesurfer/audioChunking';
-import { processChunksInRealtime, ProcessingStatus, PredictionConfig } from './api/predictionApi';
-import { calculateEvaluationMetrics, formatEvaluationMetrics } from './utils/evaluationMetrics';
+import { AudioChunk, ChunkingConfig, chunkAudio } from '@/shared/stores/wavesurfer/audioChunking';
+import {
+  DEFAULT_API_CONFIG,
+  DEFAULT_CHUNKING_CONFIG,
+  processChunksInRealtime,
+  ProcessingStatus,
+  PredictionConfig,
+} from './api/predictionApi';
+import {
+  DEFAULT_TOLERANCE_MS,
+  MatchingStrategy,
+  calculateEvaluationMetrics,
+  formatEvaluationMetrics,
+} from './utils/evaluationMetrics';
+import {
+  ClickSuppressionOptions,
+  DEFAULT_CLICK_SUPPRESSION_OPTIONS,
+  SuppressionKeep,
+  suppressDuplicateClicks,
+} from './utils/clickSuppression';
+import { hasConfidenceScores, isSelectionAboveThreshold } from './model/selectionFilters';
 
 /**
  * Props for the RealtimePredictionManager
@@ -27,6 +45,20 @@ interface RealtimePredictionManagerProps {
   apiConfig?: PredictionConfig;
   /** Existing selection groups for evaluation */
   selectionGroups?: SelectionGroup[];
+  /** Predictions scored below this confidence are hidden and left out of the metrics */
+  confidenceThreshold?: number;
+  /** Callback when the confidence threshold is changed with the slider */
+  onConfidenceThresholdChange?: (threshold: number) => void;
+  /** ID of the group the predictions are evaluated against */
+  referenceGroupId?: string;
+  /** How predictions are paired with reference clicks in the metrics */
+  matching?: MatchingStrategy;
+  /** Callback with the audio chunks and the run settings when processing starts */
+  onChunksCreated?: (
+    chunks: AudioChunk[],
+    apiConfig: PredictionConfig,
+    chunkingConfig: ChunkingConfig
+  ) => void;
 }
 
 /**
@@ -41,23 +73,6 @@ interface ProcessingState {
   endTime: number | null;
 }
 
-/**
- * Default API configuration
- */
-const DEFAULT_API_CONFIG: PredictionConfig = {
-  apiUrl: 'http://localhost:8000/infer', // Default backend endpoint
-  timeout: 15000, // 15 second timeout per chunk
-};
-
-/**
- * Default chunking configuration (5 second chunks with 3 second padding)
- */
-const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
-  chunkDuration: 5.0, // 5 second chunks
-  overlapDuration: 0.0, // No overlap for now
-  paddingDuration: 3.0, // 3 second padding on each side for inference
-};
-
 /**
  * RealtimePredictionManager component
  */
@@ -68,6 +83,11 @@ export const RealtimePredictionManager: React.FC<RealtimePredictionManagerProps>
   onStatusUpdate,
   apiConfig = DEFAULT_API_CONFIG,
   selectionGroups = [],
+  confidenceThreshold = 0,
+  onConfidenceThresholdChange,
+  referenceGroupId = 'true',
+  matching = 'greedy',
+  onChunksCreated,
 }) => {
   const [processingState, setProcessingState] = useState<ProcessingState>({
     isProcessing: false,
@@ -78,11 +98,34 @@ export const RealtimePredictionManager: React.FC<RealtimePredictionManagerProps>
     endTime: null,
   });
 
+  // Duplicate suppression applied to the predictions, null when turned off
+  const [suppression, setSuppression] = useState<ClickSuppressionOptions | null>(null);
+  // Predictions passed on after suppression and the number of duplicates removed from them
+  const [predictions, setPredictions] = useState<Selection[]>([]);
+  const [suppressedCount, setSuppressedCount] = useState<number>(0);
+
   // Store accumulated selections as processing continues
   const accumulatedSelections = useRef<Selection[]>([]);
   // Cancellation flag
   const shouldCancel = useRef<boolean>(false);
 
+  /**
+   * Pass on the accumulated selections without near-duplicates, which are also removed where
+   * adjacent chunks meet
+   *
+   * Suppression runs over all selections received so far, so earlier removals are reconsidered
+   * as new chunks arrive.
+   */
+  const updatePredictions = useCallback(() => {
+    const { kept, removed } = suppression
+      ? suppressDuplicateClicks(accumulatedSelections.current, suppression)
+      : { kept: [...accumulatedSelections.current], removed: [] };
+
+    setPredictions(kept);
+    setSuppressedCount(removed.length);
+    onSelectionsUpdate(kept);
+  }, [suppression, onSelectionsUpdate]);
+
   /**
    * Handle chunk processing updates - markers appear immediately
    */
@@ -98,7 +141,7 @@ export const RealtimePredictionManager: React.FC<RealtimePredictionManagerProps>
         accumulatedSelections.current.push(...newSelections);
 
         // Immediately update markers on waveform (real-time display)
-        onSelectionsUpdate([...accumulatedSelections.current]);
+        updatePredictions();
 
         console.log(
           `Chunk ${chunkIndex + 1} processed: ${newSelections.length} new predictions added`
@@ -122,7 +165,7 @@ export const RealtimePredictionManager: React.FC<RealtimePredictionManagerProps>
         console.warn(`Processing stopped at chunk ${chunkIndex + 1}: ${status.error}`);
       }
     },
-    [onSelectionsUpdate, onStatusUpdate]
+    [onStatusUpdate, updatePredictions]
   );
 
   /**
@@ -145,6 +188,8 @@ export const RealtimePredictionManager: React.FC<RealtimePredictionManagerProps>
     try {
       // Reset state
       accumulatedSelections.current = [];
+      setPredictions([]);
+      setSuppressedCount(0);
       shouldCancel.current = false;
       setProcessingState({
         isProcessing: true,
@@ -166,6 +211,8 @@ export const RealtimePredictionManager: React.FC<RealtimePredictionManagerProps>
         throw new Error('No audio chunks were created');
       }
 
+      onChunksCreated?.(chunks, apiConfig, DEFAULT_CHUNKING_CONFIG);
+
       // Step 2: Process chunks sequentially (stops on first error)
       console.log('Starting sequential chunk processing...');
       await processChunksInRealtime(chunks, apiConfig, handleChunkProcessed, audioId);
@@ -197,7 +244,14 @@ export const RealtimePredictionManager: React.FC<RealtimePredictionManagerProps>
         }));
       }
     }
-  }, [audioElement, audioId, apiConfig, processingState.isProcessing, handleChunkProcessed]);
+  }, [
+    audioElement,
+    audioId,
+    apiConfig,
+    processingState.isProcessing,
+    handleChunkProcessed,
+    onChunksCreated,
+  ]);
 
   /**
    * Cancel ongoing processing
@@ -221,6 +275,8 @@ export const RealtimePredictionManager: React.FC<RealtimePredictionManagerProps>
    */
   const clearSelections = useCallback(() => {
     accumulatedSelections.current = [];
+    setPredictions([]);
+    setSuppressedCount(0);
     setProcessingState({
       isProcessing: false,
       status: null,
@@ -232,6 +288,13 @@ export const RealtimePredictionManager: React.FC<RealtimePredictionManagerProps>
     onSelectionsUpdate([]);
   }, [onSelectionsUpdate]);
 
+  // Apply changed suppression settings to the predictions of the last run
+  useEffect(() => {
+    if (accumulatedSelections.current.length > 0) {
+      updatePredictions();
+    }
+  }, [updatePredictions]);
+
   /**
    * Get current processing progress percentage
    */
@@ -241,13 +304,22 @@ export const RealtimePredictionManager: React.FC<RealtimePredictionManagerProps>
     return totalChunks > 0 ? Math.round((processedChunks / totalChunks) * 100) : 0;
   }, [processingState.status]);
 
+  const scoredPredictions = hasConfidenceScores(predictions);
+  const predictionsAboveThreshold = predictions.filter((selection) =>
+    isSelectionAboveThreshold(selection, confidenceThreshold)
+  );
+  // Scores are usually probabilities, but let the slider reach any larger score
+  const maxScore = Math.max(1, ...predictions.map((selection) => selection.confidence ?? 0));
+
+  // Reference clicks (True Clicks unless another group is chosen for the evaluation)
+  const groundTruthGroup = selectionGroups.find((group) => group.id === referenceGroupId);
+
   // Calculate evaluation metrics when both ground truth and predictions exist
   const evaluationMetrics = useMemo(() => {
-    // Find ground truth (True Clicks) and current predictions
-    const groundTruthGroup = selectionGroups.find((group) => group.id === 'true');
-    const currentPredictions = accumulatedSelections.current;
+    // Current predictions above the confidence threshold
+    const currentPredictions = predictionsAboveThreshold;
 
-    if (!groundTruthGroup || !currentPredictions.length) {
+    if (!groundTruthGroup || !predictions.length) {
       return null;
     }
 
@@ -264,11 +336,19 @@ export const RealtimePredictionManager: React.FC<RealtimePredictionManagerProps>
     return calculateEvaluationMetrics(
       groundTruthGroup.selections,
       currentPredictions,
-      2, // 0.5ms tolerance as requested
-      audioId
+      DEFAULT_TOLERANCE_MS,
+      audioId,
+      matching
     );
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectionGroups, processingState.status, audioId]);
+  }, [
+    groundTruthGroup,
+    processingState.status,
+    audioId,
+    confidenceThreshold,
+    matching,
+    predictions,
+  ]);
 
   return (
     <div
@@ -336,9 +416,92 @@ export const RealtimePredictionManager: React.FC<RealtimePredictionManagerProps>
 
       {/* Selections count */}
       <div style={{ fontSize: '12px', color: '#666', marginBottom: '4px' }}>
-        Predictions found: {accumulatedSelections.current.length}
+        Predictions found: {predictions.length}
+        {scoredPredictions && ` (${predictionsAboveThreshold.length} above threshold)`}
+        {suppressedCount > 0 && `, ${suppressedCount} duplicates suppressed`}
+      </div>
+
+      {/* Duplicate suppression settings */}
+      <div
+        style={{
+          fontSize: '12px',
+          color: '#666',
+          marginBottom: '4px',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+        }}
+      >
+        <label>
+          <input
+            type='checkbox'
+            checked={!!suppression}
+            disabled={processingState.isProcessing}
+            onChange={(e) =>
+              setSuppression(e.target.checked ? DEFAULT_CLICK_SUPPRESSION_OPTIONS : null)
+            }
+          />{' '}
+          Suppress duplicates within
+        </label>
+        <input
+          type='number'
+          min={0.1}
+          step={0.5}
+          value={(suppression ?? DEFAULT_CLICK_SUPPRESSION_OPTIONS).refractoryWindow * 1000}
+          disabled={!suppression || processingState.isProcessing}
+          onChange={(e) =>
+            setSuppression((prev) =>
+              prev
+                ? { ...prev, refractoryWindow: Math.max(0.1, Number(e.target.value) || 0.1) / 1000 }
+                : prev
+            )
+          }
+          style={{ width: '50px', fontSize: '12px' }}
+        />
+        ms, keeping the
+        <select
+          value={(suppression ?? DEFAULT_CLICK_SUPPRESSION_OPTIONS).keep}
+          disabled={!suppression || processingState.isProcessing}
+          onChange={(e) =>
+            setSuppression((prev) =>
+              prev ? { ...prev, keep: e.target.value as SuppressionKeep } : prev
+            )
+          }
+          style={{ fontSize: '12px' }}
+        >
+          <option value='confidence'>most confident</option>
+          <option value='earliest'>earliest</option>
+        </select>
+        click
       </div>
 
+      {/* Confidence threshold slider */}
+      {onConfidenceThresholdChange && scoredPredictions && (
+        <div
+          style={{
+            fontSize: '12px',
+            color: '#666',
+            marginBottom: '4px',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+          }}
+        >
+          <label htmlFor='confidence-threshold'>Confidence threshold:</label>
+          <input
+            id='confidence-threshold'
+            type='range'
+            min={0}
+            max={maxScore}
+            step={maxScore / 100}
+            value={confidenceThreshold}
+            onChange={(e) => onConfidenceThresholdChange(Number(e.target.value))}
+            style={{ width: '200px' }}
+          />
+          <span style={{ fontFamily: 'monospace' }}>{confidenceThreshold.toFixed(2)}</span>
+        </div>
+      )}
+
       {/* Processing time display */}
       {processingState.startTime && processingState.endTime && (
         <div style={{ fontSize: '12px', color: '#666', marginBottom: '4px' }}>
@@ -360,7 +523,7 @@ export const RealtimePredictionManager: React.FC<RealtimePredictionManagerProps>
             border: '1px solid #C8E6C9',
           }}
         >
-          <strong>Evaluation vs True Clicks:</strong>
+          <strong>Evaluation vs {groundTruthGroup?.name}:</strong>
           <br />
           {formatEvaluationMetrics(evaluationMetrics)}
         </div>
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { SelectionGroup } from './model/types';
+import { getSelectionsForAudio } from './model/selectionFilters';
+import {
+  SELECTION_FILE_FORMATS,
+  SelectionFileFormat,
+  serializeSelections,
+} from './api/selectionsApi';
+import { audioFiles } from '@/shared/config/audioFiles';
+import { downloadTextFile } from '@/shared/lib/download';
+import { waveSurferActions } from '@/shared/stores/wavesurfer';
+
+interface SelectionExportControlsProps {
+  selectionGroups: SelectionGroup[];
+  currentAudioId: string;
+  /** Sample rate of the current audio, used for the default frequency range of Raven selections */
+  sampleRate?: number;
+}
+
+/**
+ * Which audio files are included in an export
+ */
+type ExportScope = 'current' | 'all';
+
+/**
+ * Component for exporting selection groups to files
+ */
+export const SelectionExportControls: React.FC<SelectionExportControlsProps> = ({
+  selectionGroups,
+  currentAudioId,
+  sampleRate,
+}) => {
+  const [selectedGroupIds, setSelectedGroupIds] = useState<string[]>([]);
+  const [scope, setScope] = useState<ExportScope>('current');
+  const [format, setFormat] = useState<SelectionFileFormat>('click-timestamps');
+
+  const toggleGroup = (groupId: string) => {
+    setSelectedGroupIds((prev) =>
+      prev.includes(groupId) ? prev.filter((id) => id !== groupId) : [...prev, groupId]
+    );
+  };
+
+  const formatInfo = SELECTION_FILE_FORMATS[format];
+  const exportScope: ExportScope = formatInfo.singleAudioFile ? 'current' : scope;
+  const canExport = selectedGroupIds.length > 0 || !!formatInfo.includesRegions;
+
+  const handleExport = () => {
+    const groups = selectionGroups.filter((group) => selectedGroupIds.includes(group.id));
+    if (!canExport) return;
+
+    const audioIds =
+      exportScope === 'current' ? [currentAudioId] : audioFiles.map((audio) => audio.id);
+    const regions = formatInfo.includesRegions
+      ? waveSurferActions
+          .getRegionSnapshots()
+          .map(({ start, end, label }) => ({ start, end, label }))
+      : undefined;
+    const content = serializeSelections(format, groups, audioIds, {
+      defaultHighFreq: sampleRate ? sampleRate / 2 : undefined,
+      regions,
+    });
+    const { extension, mimeType } = formatInfo;
+    const baseName = groups.length > 0 ? groups.map((group) => group.id).join('+') : 'regions';
+    const fileName = `${baseName}_${exportScope === 'current' ? currentAudioId : 'all'}.${extension}`;
+
+    downloadTextFile(content, fileName, mimeType);
+  };
+
+  return (
+    <div
+      style={{
+        marginBottom: '20px',
+        padding: '8px 12px',
+        backgroundColor: '#f9f9f9',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        fontSize: '12px',
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: '10px',
+      }}
+    >
+      <strong style={{ color: '#455A64' }}>Export selections</strong>
+
+      {selectionGroups.map((group) => {
+        const clickCount = getSelectionsForAudio(group.selections, currentAudioId).length;
+
+        return (
+          <label
+            key={group.id}
+            style={{ display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer' }}
+          >
+            <input
+              type='checkbox'
+              checked={selectedGroupIds.includes(group.id)}
+              onChange={() => toggleGroup(group.id)}
+            />
+            <span style={{ borderLeft: `3px solid ${group.color}`, paddingLeft: '4px' }}>
+              {group.name} ({clickCount})
+            </span>
+          </label>
+        );
+      })}
+
+      <select
+        value={exportScope}
+        onChange={(e) => setScope(e.target.value as ExportScope)}
+        disabled={formatInfo.singleAudioFile}
+        style={{ fontSize: '12px' }}
+      >
+        <option value='current'>This file</option>
+        <option value='all'>All audio files</option>
+      </select>
+
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as SelectionFileFormat)}
+        style={{ fontSize: '12px' }}
+      >
+        {Object.entries(SELECTION_FILE_FORMATS).map(([value, info]) => (
+          <option key={value} value={value}>
+            {info.label}
+          </option>
+        ))}
+      </select>
+
+      <button
+        onClick={handleExport}
+        disabled={!canExport}
+        style={{
+          padding: '4px 10px',
+          background: canExport ? '#3498db' : '#b0bec5',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: canExport ? 'pointer' : 'not-allowed',
+          fontSize: '12px',
+        }}
+        title={`Download as ${formatInfo.label}${
+          formatInfo.includesRegions ? ' (clicks as point labels, regions as ranged labels)' : ''
+        }`}
+      >
+        Export
+      </button>
+    </div>
+  );
+};
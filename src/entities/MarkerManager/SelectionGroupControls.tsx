@@ -1,11 +1,16 @@
 import React from 'react';
-import { SelectionGroup, SelectionVisibility } from './model/types';
+import { CategoryVisibility, SelectionGroup, SelectionVisibility } from './model/types';
+import { getCategoryKey, getSelectionsForAudio } from './model/selectionFilters';
+import { clickCategories, getClickCategory, UNCATEGORIZED } from '@/shared/config/clickCategories';
 
 interface SelectionGroupControlsProps {
   selectionGroups: SelectionGroup[];
   visibility: SelectionVisibility;
   onVisibilityChange: (visibility: SelectionVisibility) => void;
   currentAudioId: string;
+  /** When both are set, clicks can also be filtered by category */
+  categoryVisibility?: CategoryVisibility;
+  onCategoryVisibilityChange?: (visibility: CategoryVisibility) => void;
 }
 
 /**
@@ -16,6 +21,8 @@ export const SelectionGroupControls: React.FC<SelectionGroupControlsProps> = ({
   visibility,
   onVisibilityChange,
   currentAudioId,
+  categoryVisibility = {},
+  onCategoryVisibilityChange,
 }) => {
   const handleCheckboxChange = (groupId: string) => {
     onVisibilityChange({
@@ -47,53 +54,140 @@ export const SelectionGroupControls: React.FC<SelectionGroupControlsProps> = ({
     }).length;
   };
 
+  /**
+   * Count the clicks of each category among the visible groups of the current audio file
+   */
+  const getCategoryCounts = (): Map<string, number> => {
+    const counts = new Map<string, number>();
+
+    selectionGroups
+      .filter((group) => visibility[group.id] !== false)
+      .flatMap((group) => getSelectionsForAudio(group.selections, currentAudioId))
+      .forEach((selection) => {
+        const key = getCategoryKey(selection);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      });
+
+    return counts;
+  };
+
+  const categoryCounts = onCategoryVisibilityChange ? getCategoryCounts() : null;
+
+  // Taxonomy categories first, then categories found in the data, then uncategorized clicks
+  const categoryKeys = categoryCounts
+    ? [
+        ...clickCategories.map((category) => category.id),
+        ...[...categoryCounts.keys()].filter(
+          (key) => key !== UNCATEGORIZED && !getClickCategory(key)
+        ),
+        UNCATEGORIZED,
+      ]
+    : [];
+
   return (
-    <div
-      style={{
-        margin: '10px 0 20px 0',
-        display: 'flex',
-        flexWrap: 'wrap',
-        gap: '12px',
-      }}
-    >
-      {selectionGroups.map((group) => {
-        const clickCount = getClickCountForCurrentAudio(group);
-
-        if (clickCount === 0) {
-          return null;
-        }
-
-        return (
-          <label
-            key={group.id}
-            style={{
-              display: 'flex',
-              alignItems: 'center',
-              padding: '8px 12px',
-              borderRadius: '4px',
-              boxShadow: '0 1px 3px rgba(0,0,0,0.1)',
-              cursor: 'pointer',
-              transition: 'background-color 0.2s',
-              backgroundColor: visibility[group.id] !== false ? '#f5f5f5' : '#e0e0e0',
-              borderLeft: `4px solid ${group.color}`,
-              opacity: clickCount > 0 ? 1 : 0.7,
-            }}
-          >
-            <input
-              type='checkbox'
-              checked={visibility[group.id] ?? true}
-              onChange={() => handleCheckboxChange(group.id)}
-              style={{ marginRight: '8px' }}
-            />
-            <div>
-              <div style={{ fontWeight: 'bold', fontSize: '14px' }}>{group.name}</div>
-              <div style={{ fontSize: '12px', color: '#666', marginTop: '2px' }}>
-                {clickCount > 0 ? `${clickCount} clicks in this file` : 'No clicks in this file'}
+    <>
+      <div
+        style={{
+          margin: '10px 0 20px 0',
+          display: 'flex',
+          flexWrap: 'wrap',
+          gap: '12px',
+        }}
+      >
+        {selectionGroups.map((group) => {
+          const clickCount = getClickCountForCurrentAudio(group);
+
+          // Editable groups stay visible so that users can start annotating into them
+          if (clickCount === 0 && !group.editable) {
+            return null;
+          }
+
+          return (
+            <label
+              key={group.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                padding: '8px 12px',
+                borderRadius: '4px',
+                boxShadow: '0 1px 3px rgba(0,0,0,0.1)',
+                cursor: 'pointer',
+                transition: 'background-color 0.2s',
+                backgroundColor: visibility[group.id] !== false ? '#f5f5f5' : '#e0e0e0',
+                borderLeft: `4px solid ${group.color}`,
+                opacity: clickCount > 0 ? 1 : 0.7,
+              }}
+            >
+              <input
+                type='checkbox'
+                checked={visibility[group.id] ?? true}
+                onChange={() => handleCheckboxChange(group.id)}
+                style={{ marginRight: '8px' }}
+              />
+              <div>
+                <div style={{ fontWeight: 'bold', fontSize: '14px' }}>{group.name}</div>
+                <div style={{ fontSize: '12px', color: '#666', marginTop: '2px' }}>
+                  {clickCount > 0 ? `${clickCount} clicks in this file` : 'No clicks in this file'}
+                </div>
               </div>
-            </div>
-          </label>
-        );
-      })}
-    </div>
+            </label>
+          );
+        })}
+      </div>
+
+      {categoryCounts && onCategoryVisibilityChange && (
+        <div
+          style={{
+            margin: '-10px 0 20px 0',
+            display: 'flex',
+            flexWrap: 'wrap',
+            alignItems: 'center',
+            gap: '8px',
+            fontSize: '12px',
+          }}
+        >
+          <strong style={{ color: '#455A64' }}>Categories:</strong>
+          {categoryKeys.map((key) => {
+            const category = getClickCategory(key);
+            const isVisible = categoryVisibility[key] !== false;
+
+            return (
+              <label
+                key={key}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '4px',
+                  padding: '2px 8px',
+                  borderRadius: '10px',
+                  cursor: 'pointer',
+                  backgroundColor: isVisible ? '#f5f5f5' : '#e0e0e0',
+                  opacity: categoryCounts.get(key) ? 1 : 0.6,
+                }}
+                title={category?.description}
+              >
+                <input
+                  type='checkbox'
+                  checked={isVisible}
+                  onChange={() =>
+                    onCategoryVisibilityChange({ ...categoryVisibility, [key]: !isVisible })
+                  }
+                />
+                <span
+                  style={{
+                    width: '8px',
+                    height: '8px',
+                    borderRadius: '50%',
+                    backgroundColor: category?.color ?? '#ccc',
+                  }}
+                />
+                {category?.name ?? (key === UNCATEGORIZED ? 'Uncategorized' : key)} (
+                {categoryCounts.get(key) ?? 0})
+              </label>
+            );
+          })}
+        </div>
+      )}
+    </>
   );
 };
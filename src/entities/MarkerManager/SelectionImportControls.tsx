@@ -0,0 +1,139 @@
+import React, { useRef, useState } from 'react';
+import { SelectionGroup } from './model/types';
+import { parseSelectionFile } from './api/selectionsApi';
+import { AudacityLabelRange } from './api/audacityLabels';
+
+interface SelectionImportControlsProps {
+  selectionGroups: SelectionGroup[];
+  currentAudioId: string;
+  onImport: (group: SelectionGroup) => void;
+  /** Called with the ranged labels of an imported label file, to add them as regions */
+  onRegionsImport?: (regions: AudacityLabelRange[]) => void;
+}
+
+/**
+ * Colors assigned to imported groups, in order of use
+ */
+const IMPORT_COLORS = ['#E91E63', '#00BCD4', '#795548', '#3F51B5', '#CDDC39', '#FF5722'];
+
+/**
+ * Component for importing selection files (Raven selection tables, Audacity labels,
+ * click timestamp CSVs) as new selection groups and regions
+ */
+export const SelectionImportControls: React.FC<SelectionImportControlsProps> = ({
+  selectionGroups,
+  currentAudioId,
+  onImport,
+  onRegionsImport,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  // Annotator the next imported file is tagged with, for inter-annotator agreement
+  const [annotatorId, setAnnotatorId] = useState<string>('');
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const usedColors = selectionGroups.map((group) => group.color);
+      const color =
+        IMPORT_COLORS.find((item) => !usedColors.includes(item)) ??
+        IMPORT_COLORS[selectionGroups.length % IMPORT_COLORS.length];
+
+      const { group: parsedGroup, regions } = parseSelectionFile(await file.text(), file.name, {
+        id: `import_${Date.now()}`,
+        color,
+        audioId: currentAudioId,
+      });
+      const annotator = annotatorId.trim();
+      const group = annotator
+        ? { ...parsedGroup, name: `${annotator} (${file.name})`, annotatorId: annotator }
+        : parsedGroup;
+      const importedRegions = onRegionsImport ? regions : [];
+
+      if (group.selections.length === 0 && importedRegions.length === 0) {
+        throw new Error(`No selections found in ${file.name}`);
+      }
+
+      if (group.selections.length > 0) {
+        onImport(group);
+      }
+      if (importedRegions.length > 0) {
+        onRegionsImport?.(importedRegions);
+      }
+
+      const imported = [`${group.selections.length} selections`];
+      if (importedRegions.length > 0) {
+        imported.push(`${importedRegions.length} regions`);
+      }
+      setMessage({
+        text: `Imported ${imported.join(' and ')} from ${file.name}`,
+        isError: false,
+      });
+    } catch (error) {
+      console.error('Error importing selection file:', error);
+      setMessage({
+        text: error instanceof Error ? error.message : 'Failed to import selection file',
+        isError: true,
+      });
+    }
+  };
+
+  return (
+    <div
+      style={{
+        marginBottom: '20px',
+        padding: '8px 12px',
+        backgroundColor: '#f9f9f9',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        fontSize: '12px',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '10px',
+      }}
+    >
+      <strong style={{ color: '#455A64' }}>Import selections</strong>
+
+      <input
+        ref={inputRef}
+        type='file'
+        accept='.txt,.csv,.tsv'
+        onChange={handleFileChange}
+        style={{ display: 'none' }}
+      />
+      <button
+        onClick={() => inputRef.current?.click()}
+        style={{
+          padding: '4px 10px',
+          background: '#3498db',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: 'pointer',
+          fontSize: '12px',
+        }}
+        title='Import a Raven selection table, Audacity label file or click timestamps CSV'
+      >
+        Choose file…
+      </button>
+
+      <label title='Tag imported clicks with the annotator who labelled them, to compare annotators'>
+        Annotator{' '}
+        <input
+          type='text'
+          value={annotatorId}
+          onChange={(e) => setAnnotatorId(e.target.value)}
+          placeholder='optional'
+          style={{ width: '90px', fontSize: '12px' }}
+        />
+      </label>
+
+      {message && (
+        <span style={{ color: message.isError ? '#d32f2f' : '#2e7d32' }}>{message.text}</span>
+      )}
+    </div>
+  );
+};
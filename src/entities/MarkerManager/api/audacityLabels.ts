@@ -0,0 +1,143 @@
+import { Selection, SelectionGroup } from '../model/types';
+import { getSelectionsForAudio } from '../model/selectionFilters';
+import { getClickCategory } from '@/shared/config/clickCategories';
+
+/**
+ * A ranged Audacity label, imported as a waveform region
+ */
+export interface AudacityLabelRange {
+  start: number;
+  end: number;
+  label?: string;
+}
+
+/**
+ * Content of an Audacity label file
+ */
+export interface AudacityLabels {
+  /** Point labels, one click each */
+  selections: Selection[];
+  /** Ranged labels */
+  ranges: AudacityLabelRange[];
+}
+
+export interface AudacityParseOptions {
+  /** Source (group) ID written to each selection */
+  source: string;
+  color?: string;
+  /** Audio file the labels belong to (label files don't name one) */
+  audioId: string;
+}
+
+/**
+ * Annotation key holding the text of an Audacity label
+ */
+export const AUDACITY_LABEL_ANNOTATION = 'label';
+
+/**
+ * Parses an Audacity label file (tab-separated start, end and label text per line)
+ *
+ * Point labels (start equals end) become clicks, ranged labels are returned separately.
+ * Point labels named after a click category also set the category of the click. Frequency
+ * lines following a label ("\" then low and high frequency) are kept as the frequency bounds
+ * of a click.
+ *
+ * @param data - Content of the label file
+ * @param options - Source, color and audio ID for the selections
+ * @returns Clicks and ranges, each sorted by start time
+ */
+export const parseAudacityLabels = (
+  data: string,
+  options: AudacityParseOptions
+): AudacityLabels => {
+  const selections: Selection[] = [];
+  const ranges: AudacityLabelRange[] = [];
+  let previousSelection: Selection | null = null;
+
+  data.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') return;
+
+    const [first, second, ...rest] = line.split('\t');
+
+    // Spectral selection line belonging to the previous label
+    if (first.trim() === '\\') {
+      const lowFreq = parseFloat(second);
+      const highFreq = parseFloat(rest[0]);
+      if (previousSelection && Number.isFinite(lowFreq) && Number.isFinite(highFreq)) {
+        previousSelection.lowFreq = lowFreq;
+        previousSelection.highFreq = highFreq;
+      }
+      return;
+    }
+
+    const start = parseFloat(first);
+    const end = parseFloat(second);
+    if (!Number.isFinite(start) || !Number.isFinite(end)) {
+      console.error(`Error parsing Audacity label on line ${index}: ${line}`);
+      return;
+    }
+
+    const label = rest.join('\t').trim() || undefined;
+    previousSelection = null;
+
+    if (end <= start) {
+      const selection: Selection = {
+        id: `${options.source}_${index}`,
+        beginTime: start,
+        endTime: start + 0.01, // Minimal duration
+        source: options.source,
+        color: options.color,
+        name: `${options.audioId}.wav`,
+        audioId: options.audioId,
+        annotations: label ? { [AUDACITY_LABEL_ANNOTATION]: label } : undefined,
+        category: getClickCategory(label)?.id,
+      };
+      selections.push(selection);
+      previousSelection = selection;
+    } else {
+      ranges.push({ start, end, label });
+    }
+  });
+
+  return {
+    selections: selections.sort((a, b) => a.beginTime - b.beginTime),
+    ranges: ranges.sort((a, b) => a.start - b.start),
+  };
+};
+
+/**
+ * Serializes clicks of one audio file and waveform regions into an Audacity label file
+ *
+ * Clicks are written as point labels named after their label annotation, their category or
+ * their group, regions as ranged labels.
+ *
+ * @param selectionGroups - Groups whose clicks are exported
+ * @param audioId - Audio file the labels are for
+ * @param ranges - Regions to export
+ * @returns Label file content
+ */
+export const serializeAudacityLabels = (
+  selectionGroups: SelectionGroup[],
+  audioId: string,
+  ranges: AudacityLabelRange[] = []
+): string => {
+  // Tabs and line breaks would break the label layout
+  const clean = (text: string) => text.replace(/[\t\r\n]+/g, ' ');
+
+  const labels = [
+    ...selectionGroups.flatMap((group) =>
+      getSelectionsForAudio(group.selections, audioId).map((selection) => ({
+        start: selection.beginTime,
+        end: selection.beginTime,
+        label:
+          selection.annotations?.[AUDACITY_LABEL_ANNOTATION] ?? selection.category ?? group.name,
+      }))
+    ),
+    ...ranges,
+  ].sort((a, b) => a.start - b.start);
+
+  return labels
+    .map(({ start, end, label }) => `${start}\t${end}\t${clean(label ?? '')}`)
+    .join('\n')
+    .concat(labels.length > 0 ? '\n' : '');
+};
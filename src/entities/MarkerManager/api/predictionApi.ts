@@ -6,7 +6,7 @@
  */
 
 import { Selection } from '../model/types';
-import { AudioChunk } from '@/shared/stores/wavesurfer/audioChunking';
+import { AudioChunk, ChunkingConfig } from '@/shared/stores/wavesurfer/audioChunking';
 
 /**
  * Configuration for prediction API
@@ -18,12 +18,31 @@ export interface PredictionConfig {
   timeout?: number;
 }
 
+/**
+ * Default API configuration
+ */
+export const DEFAULT_API_CONFIG: PredictionConfig = {
+  apiUrl: 'http://localhost:8000/infer', // Default backend endpoint
+  timeout: 15000, // 15 second timeout per chunk
+};
+
+/**
+ * Default chunking configuration (5 second chunks with 3 second padding)
+ */
+export const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
+  chunkDuration: 5.0, // 5 second chunks
+  overlapDuration: 0.0, // No overlap for now
+  paddingDuration: 3.0, // 3 second padding on each side for inference
+};
+
 /**
  * Response from the prediction API
  */
 export interface PredictionResponse {
   /** Array of prediction timestamps in seconds */
   seconds: number[];
+  /** Optional confidence score of each prediction, in the same order as seconds */
+  scores?: number[];
 }
 
 /**
@@ -92,8 +111,16 @@ export async function sendChunkForPrediction(
       throw new Error('Invalid response format: expected object with seconds array');
     }
 
+    if (
+      data.scores !== undefined &&
+      (!Array.isArray(data.scores) || data.scores.length !== data.seconds.length)
+    ) {
+      throw new Error('Invalid response format: expected one score per prediction');
+    }
+
     return {
       seconds: data.seconds,
+      scores: data.scores,
     };
 
   } catch (error) {
@@ -140,7 +167,8 @@ export async function processChunksInRealtime(
       const chunkSelections = createSelectionsFromPredictions(
         predictionResponse.seconds,
         chunk,
-        audioId
+        audioId,
+        predictionResponse.scores
       );
 
       // Add to total selections
@@ -191,12 +219,14 @@ export async function processChunksInRealtime(
  * @param predictions - Array of prediction timestamps from padded chunk
  * @param chunk - The audio chunk these predictions came from
  * @param audioId - ID of the audio file
+ * @param scores - Optional confidence score of each prediction
  * @returns Selection[] - Array of selection objects with padding cropped
  */
 function createSelectionsFromPredictions(
   predictions: number[],
   chunk: AudioChunk,
-  audioId: string
+  audioId: string,
+  scores?: number[]
 ): Selection[] {
   const selections: Selection[] = [];
   const { actualLeftPadding } = chunk;
@@ -212,12 +242,14 @@ function createSelectionsFromPredictions(
       // Adjust timestamp: subtract actual left padding, then add original chunk start time
       const adjustedTimestamp = timestamp - actualLeftPadding;
       const globalTimestamp = chunk.startTime + adjustedTimestamp;
+      const score = scores?.[index];
 
       selections.push({
         id: `prediction_${chunk.index}_${index}`,
         beginTime: globalTimestamp,
         endTime: globalTimestamp + 0.001, // Very small duration for click markers
-        audioId: audioId
+        audioId: audioId,
+        confidence: Number.isFinite(score) ? score : undefined
       });
     }
   });
@@ -0,0 +1,235 @@
+import { Selection, SelectionGroup } from '../model/types';
+import { getSelectionsForAudio } from '../model/selectionFilters';
+
+/**
+ * Column names of a Raven Pro selection table that map onto Selection fields
+ */
+const RAVEN_COLUMNS = {
+  selection: 'Selection',
+  view: 'View',
+  channel: 'Channel',
+  beginTime: 'Begin Time (s)',
+  endTime: 'End Time (s)',
+  lowFreq: 'Low Freq (Hz)',
+  highFreq: 'High Freq (Hz)',
+  beginFile: 'Begin File',
+  beginPath: 'Begin Path',
+  fileOffset: 'File Offset (s)',
+  category: 'Category',
+  score: 'Score',
+} as const;
+
+const MAPPED_COLUMNS: string[] = Object.values(RAVEN_COLUMNS);
+
+/**
+ * View written for exported selections; frequency bounds are only meaningful in spectrogram views
+ */
+const DEFAULT_VIEW = 'Spectrogram 1';
+
+export interface RavenParseOptions {
+  /** Source (group) ID written to each selection */
+  source: string;
+  color?: string;
+  /** Audio file of the table, used when it has no "Begin File" column */
+  audioId?: string;
+}
+
+export interface RavenSerializeOptions {
+  /** High frequency written for selections without one, usually the Nyquist frequency (Hz) */
+  defaultHighFreq?: number;
+}
+
+/**
+ * Remove the directory and extension from a file name
+ */
+const getAudioIdFromFileName = (fileName: string): string => {
+  const baseName = fileName.split(/[\\/]/).pop() ?? fileName;
+  return baseName.replace(/\.[^.]+$/, '');
+};
+
+/**
+ * Parses a tab-delimited Raven Pro selection table
+ *
+ * Raven writes one row per view (e.g. "Waveform 1" and "Spectrogram 1") for the same
+ * selection; only the first row of each selection number is kept, taking frequency bounds
+ * from a spectrogram view row where there is one. Columns without a Selection field are
+ * stored in `annotations`. When the table has "Begin File" and "File Offset (s)" columns,
+ * times are taken relative to the begin file.
+ *
+ * @param data - Content of the selection table
+ * @param options - Source, color and fallback audio ID for the selections
+ * @returns Parsed selections sorted by begin time
+ * @throws Error if the table lacks the begin or end time column
+ */
+export const parseRavenSelectionTable = (data: string, options: RavenParseOptions): Selection[] => {
+  const lines = data.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split('\t').map((column) => column.trim());
+  const columnIndex = (name: string) => header.indexOf(name);
+
+  const beginIndex = columnIndex(RAVEN_COLUMNS.beginTime);
+  const endIndex = columnIndex(RAVEN_COLUMNS.endTime);
+  if (beginIndex === -1 || endIndex === -1) {
+    throw new Error(
+      `Not a Raven selection table: missing "${RAVEN_COLUMNS.beginTime}" or "${RAVEN_COLUMNS.endTime}" column`
+    );
+  }
+
+  const selectionIndex = columnIndex(RAVEN_COLUMNS.selection);
+  const viewIndex = columnIndex(RAVEN_COLUMNS.view);
+  const channelIndex = columnIndex(RAVEN_COLUMNS.channel);
+  const lowFreqIndex = columnIndex(RAVEN_COLUMNS.lowFreq);
+  const highFreqIndex = columnIndex(RAVEN_COLUMNS.highFreq);
+  const beginFileIndex = columnIndex(RAVEN_COLUMNS.beginFile);
+  const fileOffsetIndex = columnIndex(RAVEN_COLUMNS.fileOffset);
+  const categoryIndex = columnIndex(RAVEN_COLUMNS.category);
+  const scoreIndex = columnIndex(RAVEN_COLUMNS.score);
+  const annotationColumns = header
+    .map((name, index) => ({ name, index }))
+    .filter(({ name }) => name !== '' && !MAPPED_COLUMNS.includes(name));
+
+  const selections: Selection[] = [];
+  const processedSelections = new Map<string, Selection>();
+
+  for (let i = 1; i < lines.length; i++) {
+    const parts = lines[i].split('\t');
+    const value = (index: number) => (index === -1 ? undefined : parts[index]?.trim());
+    const number = (index: number) => {
+      const parsed = parseFloat(value(index) ?? '');
+      return Number.isFinite(parsed) ? parsed : undefined;
+    };
+
+    const id = value(selectionIndex) || String(i);
+    const isSpectrogramView = value(viewIndex)?.startsWith('Spectrogram') ?? false;
+
+    const processed = processedSelections.get(id);
+    if (processed) {
+      if (isSpectrogramView) {
+        processed.lowFreq = number(lowFreqIndex) ?? processed.lowFreq;
+        processed.highFreq = number(highFreqIndex) ?? processed.highFreq;
+      }
+      continue;
+    }
+
+    let beginTime = number(beginIndex);
+    let endTime = number(endIndex);
+    if (beginTime === undefined || endTime === undefined) {
+      console.error(`Error parsing Raven selection on line ${i}: ${lines[i]}`);
+      continue;
+    }
+
+    const beginFile = value(beginFileIndex);
+    const fileOffset = number(fileOffsetIndex);
+    if (beginFile && fileOffset !== undefined) {
+      endTime = fileOffset + (endTime - beginTime);
+      beginTime = fileOffset;
+    }
+
+    const audioId = beginFile ? getAudioIdFromFileName(beginFile) : options.audioId;
+
+    const annotations: Record<string, string> = {};
+    annotationColumns.forEach(({ name, index }) => {
+      const annotation = value(index);
+      if (annotation) {
+        annotations[name] = annotation;
+      }
+    });
+
+    const selection: Selection = {
+      id,
+      beginTime,
+      endTime,
+      source: options.source,
+      color: options.color,
+      name: beginFile || (audioId ? `${audioId}.wav` : undefined),
+      audioId,
+      lowFreq: number(lowFreqIndex),
+      highFreq: number(highFreqIndex),
+      channel: number(channelIndex),
+      annotations: Object.keys(annotations).length > 0 ? annotations : undefined,
+      category: value(categoryIndex)?.toLowerCase() || undefined,
+      confidence: number(scoreIndex),
+    };
+
+    selections.push(selection);
+    processedSelections.set(id, selection);
+  }
+
+  return selections.sort((a, b) => a.beginTime - b.beginTime);
+};
+
+/**
+ * Serializes selection groups into a tab-delimited Raven Pro selection table
+ *
+ * Selections of all given groups and audio files are numbered consecutively. Each row
+ * names its audio file in "Begin File"; begin and end times are relative to that file,
+ * so multi-file tables should be opened in Raven one file at a time.
+ *
+ * @param selectionGroups - Groups whose selections are exported
+ * @param audioIds - Audio files to include
+ * @param options - Defaults for fields the selections don't carry
+ * @returns Selection table content
+ */
+export const serializeRavenSelectionTable = (
+  selectionGroups: SelectionGroup[],
+  audioIds: string[],
+  options: RavenSerializeOptions = {}
+): string => {
+  const rows = audioIds.flatMap((audioId) =>
+    selectionGroups
+      .flatMap((group) => getSelectionsForAudio(group.selections, audioId))
+      .sort((a, b) => a.beginTime - b.beginTime)
+      .map((selection) => ({ audioId, selection }))
+  );
+
+  // Annotation columns in order of first appearance
+  const annotationColumns: string[] = [];
+  rows.forEach(({ selection }) => {
+    Object.keys(selection.annotations ?? {}).forEach((name) => {
+      if (!annotationColumns.includes(name) && !MAPPED_COLUMNS.includes(name)) {
+        annotationColumns.push(name);
+      }
+    });
+  });
+
+  const hasCategories = rows.some(({ selection }) => selection.category);
+  const hasScores = rows.some(({ selection }) => selection.confidence !== undefined);
+
+  // Tabs and line breaks would break the table layout
+  const clean = (text: string) => text.replace(/[\t\r\n]+/g, ' ');
+
+  const header = [
+    RAVEN_COLUMNS.selection,
+    RAVEN_COLUMNS.view,
+    RAVEN_COLUMNS.channel,
+    RAVEN_COLUMNS.beginTime,
+    RAVEN_COLUMNS.endTime,
+    RAVEN_COLUMNS.lowFreq,
+    RAVEN_COLUMNS.highFreq,
+    RAVEN_COLUMNS.beginFile,
+    ...(hasCategories ? [RAVEN_COLUMNS.category] : []),
+    ...(hasScores ? [RAVEN_COLUMNS.score] : []),
+    ...annotationColumns,
+  ];
+
+  const lines = rows.map(({ audioId, selection }, index) =>
+    [
+      String(index + 1),
+      DEFAULT_VIEW,
+      String(selection.channel ?? 1),
+      String(selection.beginTime),
+      String(selection.endTime),
+      String(selection.lowFreq ?? 0),
+      String(selection.highFreq ?? options.defaultHighFreq ?? 0),
+      `${audioId}.wav`,
+      ...(hasCategories ? [clean(selection.category ?? '')] : []),
+      ...(hasScores
+        ? [selection.confidence !== undefined ? String(selection.confidence) : '']
+        : []),
+      ...annotationColumns.map((name) => clean(selection.annotations?.[name] ?? '')),
+    ].join('\t')
+  );
+
+  return [header.join('\t'), ...lines].join('\n') + '\n';
+};
@@ -1,5 +1,64 @@
 import { Selection, SelectionGroup } from '../model/types';
+import { getSelectionsForAudio } from '../model/selectionFilters';
 import { SelectionFile } from '@/shared/config/audioFiles';
+import { parseRavenSelectionTable, serializeRavenSelectionTable } from './ravenSelectionTable';
+import {
+  AudacityLabelRange,
+  parseAudacityLabels,
+  serializeAudacityLabels,
+} from './audacityLabels';
+
+/**
+ * File formats selection groups can be imported from and exported to
+ */
+export type SelectionFileFormat = 'click-timestamps' | 'raven' | 'audacity';
+
+export interface SelectionFileFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  /** Whether a file only holds the selections of one audio file */
+  singleAudioFile?: boolean;
+  /** Whether waveform regions are imported and exported along with the selections */
+  includesRegions?: boolean;
+}
+
+export const SELECTION_FILE_FORMATS: Record<SelectionFileFormat, SelectionFileFormatInfo> = {
+  'click-timestamps': { label: 'Click timestamps CSV', extension: 'csv', mimeType: 'text/csv' },
+  raven: { label: 'Raven selection table', extension: 'txt', mimeType: 'text/plain' },
+  audacity: {
+    label: 'Audacity labels',
+    extension: 'txt',
+    mimeType: 'text/plain',
+    singleAudioFile: true,
+    includesRegions: true,
+  },
+};
+
+/**
+ * Result of importing a selection file
+ */
+export interface SelectionFileImport {
+  /** New group holding the imported clicks */
+  group: SelectionGroup;
+  /** Labelled time ranges to add as waveform regions */
+  regions: AudacityLabelRange[];
+}
+
+export interface SelectionImportOptions {
+  /** ID of the created group */
+  id: string;
+  color: string;
+  /** Audio file assumed for selections when the file doesn't name one */
+  audioId?: string;
+}
+
+export interface SelectionExportOptions {
+  /** High frequency of Raven selections without one, usually the Nyquist frequency (Hz) */
+  defaultHighFreq?: number;
+  /** Waveform regions, for formats that include them */
+  regions?: AudacityLabelRange[];
+}
 
 /**
  * Fetches and parses selection data from a text file that contains click timestamps
@@ -57,9 +116,42 @@ export const fetchMultipleSelections = async (
   }
 };
 
+/**
+ * Parses a list of category IDs as written by pandas, e.g. "['regular', 'coda', '']"
+ */
+const parseCategoryList = (list: string): (string | undefined)[] => {
+  const content = list.trim().replace(/^\[|\]$/g, '');
+  if (!content.trim()) return [];
+
+  return content.split(',').map((item) => item.trim().replace(/^['"]|['"]$/g, '') || undefined);
+};
+
+/**
+ * Whether a list holds numbers, as written by pandas for scores ("nan" where a click has none)
+ */
+const isNumberList = (list: string): boolean =>
+  /^\[\s*(?:(?:[-+.\deE]+|nan|None)\s*(?:,\s*|(?=\])))*\]$/i.test(list.trim());
+
+/**
+ * Parses a list of confidence scores, e.g. "[0.93, 0.41, nan]"
+ */
+const parseScoreList = (list: string): (number | undefined)[] => {
+  const content = list.trim().replace(/^\[|\]$/g, '');
+  if (!content.trim()) return [];
+
+  return content.split(',').map((item) => {
+    const score = parseFloat(item);
+    return Number.isFinite(score) ? score : undefined;
+  });
+};
+
 /**
  * Parses the new click timestamps format where each line contains an array of click times
  * Format: "0,19620917a.wav,"[0.193, 0.374, 0.508, 0.692, 0.695, 0.951, 1.111, 1.17]""
+ *
+ * Optional further columns hold the category and the confidence score of each click in the same
+ * order: "0,19620917a.wav,"[0.193, 0.374]","['regular', 'coda']","[0.93, 0.41]"". Lists of
+ * numbers are read as scores, other lists as categories.
  */
 const parseClickTimestamps = (data: string, selectionFile: SelectionFile): Selection[] => {
   const lines = data.split('\n');
@@ -74,8 +166,8 @@ const parseClickTimestamps = (data: string, selectionFile: SelectionFile): Selec
     if (!line) continue;
 
     try {
-      // Parse the CSV-like format - look for row index, filename, and timestamps array
-      const match = line.match(/(\d+),([^,]+),"(\[.*?\])"/);
+      // Parse the CSV-like format - look for row index, filename, timestamps and further arrays
+      const match = line.match(/(\d+),([^,]+),"(\[.*?\])"((?:,"\[.*?\]")*)/);
 
       if (match && match.length >= 4) {
         const rowIndex = match[1];
@@ -84,6 +176,11 @@ const parseClickTimestamps = (data: string, selectionFile: SelectionFile): Selec
 
         // Parse the JSON array of timestamps
         const timestamps = JSON.parse(timestampsJson);
+        const lists = Array.from((match[4] ?? '').matchAll(/"(\[.*?\])"/g), (item) => item[1]);
+        const categoryList = lists.find((list) => !isNumberList(list));
+        const scoreList = lists.find((list) => isNumberList(list));
+        const categories = categoryList ? parseCategoryList(categoryList) : [];
+        const scores = scoreList ? parseScoreList(scoreList) : [];
 
         // Extract the audio ID from the filename (remove file extension)
         const audioId = fileName.split('.')[0];
@@ -98,6 +195,8 @@ const parseClickTimestamps = (data: string, selectionFile: SelectionFile): Selec
             color: selectionFile.color,
             name: fileName, // Store the full filename for easier filtering
             audioId: audioId, // Store the audio ID directly for filtering
+            category: categories[index],
+            confidence: scores[index],
           });
         });
       }
@@ -109,38 +208,174 @@ const parseClickTimestamps = (data: string, selectionFile: SelectionFile): Selec
   return selections;
 };
 
-/*
- * Legacy parser for the original tab-delimited format
- * Kept for backward compatibility
- 
-const parseSelections = (data: string): Selection[] => {
-  const lines = data.split('\n');
-  const parsedSelections: Selection[] = [];
-  const processedIds = new Set<number>();
+/**
+ * Serializes selection groups into the click timestamps format read by parseClickTimestamps
+ * Format: ",file_name,clicks" header, then one row per audio file with a JSON array of click times
+ *
+ * Selections of all given groups are merged per audio file and sorted by time. Times are written
+ * with full precision so that parsing the output reproduces the same timestamps. If any click has
+ * a category, a "categories" column lists the category of each click ('' when it has none); if
+ * any click has a confidence score, a "scores" column lists the scores (nan when it has none).
+ *
+ * @param selectionGroups - Groups whose selections are exported
+ * @param audioIds - Audio files to include, one row each (files without clicks get an empty array)
+ * @returns CSV content
+ */
+export const serializeClickTimestamps = (
+  selectionGroups: SelectionGroup[],
+  audioIds: string[]
+): string => {
+  const rows = audioIds.map((audioId) =>
+    selectionGroups
+      .flatMap((group) => getSelectionsForAudio(group.selections, audioId))
+      .sort((a, b) => a.beginTime - b.beginTime)
+  );
+  const hasCategories = rows.some((selections) =>
+    selections.some((selection) => selection.category)
+  );
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (line === '') continue;
+  const hasScores = rows.some((selections) =>
+    selections.some((selection) => selection.confidence !== undefined)
+  );
 
-    const parts = line.split('\t');
+  const header = [',file_name,clicks'];
+  if (hasCategories) header.push('categories');
+  if (hasScores) header.push('scores');
+  const lines = [header.join(',')];
 
-    if (parts.length >= 5) {
-      const id = parseInt(parts[0]);
+  rows.forEach((selections, rowIndex) => {
+    const timestamps = selections.map((selection) => String(selection.beginTime));
+    let line = `${rowIndex},${audioIds[rowIndex]}.wav,"[${timestamps.join(', ')}]"`;
 
-      if (processedIds.has(id)) {
-        continue;
-      }
+    if (hasCategories) {
+      const categories = selections.map((selection) => `'${selection.category ?? ''}'`);
+      line += `,"[${categories.join(', ')}]"`;
+    }
 
-      processedIds.add(id);
+    if (hasScores) {
+      const scores = selections.map((selection) => String(selection.confidence ?? 'nan'));
+      line += `,"[${scores.join(', ')}]"`;
+    }
+
+    lines.push(line);
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Detects the format of selection file content from its first line
+ *
+ * @returns The detected format, or null if the content isn't recognised
+ */
+export const detectSelectionFileFormat = (data: string): SelectionFileFormat | null => {
+  const firstLine = data.split(/\r?\n/).find((line) => line.trim() !== '') ?? '';
+
+  if (firstLine.includes('\t') && firstLine.includes('Begin Time (s)')) {
+    return 'raven';
+  }
+
+  if (firstLine.startsWith(',file_name,clicks') || /^\d+,[^,]+,"\[/.test(firstLine)) {
+    return 'click-timestamps';
+  }
+
+  if (/^\s*-?[\d.]+\t-?[\d.]+(\t|$)/.test(firstLine)) {
+    return 'audacity';
+  }
+
+  return null;
+};
 
-      parsedSelections.push({
-        id: id.toString(),
-        beginTime: parseFloat(parts[3]),
-        endTime: parseFloat(parts[4])
+/**
+ * Parses an imported selection file into a new selection group and waveform regions
+ *
+ * @param data - File content
+ * @param fileName - Name of the imported file, used as the group name
+ * @param options - ID and color of the group and the fallback audio ID
+ * @returns The imported group and regions
+ * @throws Error if the format is not recognised or the file can't be parsed
+ */
+export const parseSelectionFile = (
+  data: string,
+  fileName: string,
+  options: SelectionImportOptions
+): SelectionFileImport => {
+  const format = detectSelectionFileFormat(data);
+  if (!format) {
+    throw new Error(`Unrecognised selection file format: ${fileName}`);
+  }
+
+  let selections: Selection[] = [];
+  let regions: AudacityLabelRange[] = [];
+
+  switch (format) {
+    case 'raven':
+      selections = parseRavenSelectionTable(data, {
+        source: options.id,
+        color: options.color,
+        audioId: options.audioId,
+      });
+      break;
+    case 'audacity': {
+      if (!options.audioId) {
+        throw new Error('Audacity labels can only be imported for an open audio file');
+      }
+      const labels = parseAudacityLabels(data, {
+        source: options.id,
+        color: options.color,
+        audioId: options.audioId,
       });
+      selections = labels.selections;
+      regions = labels.ranges;
+      break;
     }
+    case 'click-timestamps':
+      selections = parseClickTimestamps(data, {
+        id: options.id,
+        name: fileName,
+        url: fileName,
+        color: options.color,
+        description: '',
+      });
+      break;
   }
 
-  return parsedSelections;
+  return {
+    group: {
+      id: options.id,
+      name: fileName,
+      color: options.color,
+      description: `Imported from ${fileName} (${SELECTION_FILE_FORMATS[format].label})`,
+      selections,
+    },
+    regions,
+  };
+};
+
+/**
+ * Serializes selection groups into the given file format
+ *
+ * @param format - Output format
+ * @param selectionGroups - Groups whose selections are exported
+ * @param audioIds - Audio files to include
+ * @param options - Format specific defaults
+ * @returns File content
+ */
+export const serializeSelections = (
+  format: SelectionFileFormat,
+  selectionGroups: SelectionGroup[],
+  audioIds: string[],
+  options: SelectionExportOptions = {}
+): string => {
+  switch (format) {
+    case 'audacity':
+      if (audioIds.length !== 1) {
+        throw new Error('Audacity label files hold the labels of a single audio file');
+      }
+      return serializeAudacityLabels(selectionGroups, audioIds[0], options.regions);
+    case 'raven':
+      return serializeRavenSelectionTable(selectionGroups, audioIds, options);
+    case 'click-timestamps':
+      return serializeClickTimestamps(selectionGroups, audioIds);
+  }
 };
-*/
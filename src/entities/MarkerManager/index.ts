@@ -1,6 +1,26 @@
 export { MarkerManager } from "./MarkerManager";
+export { CodaOverlay } from "./CodaOverlay";
+export { ChunkBoundaryOverlay } from "./ChunkBoundaryOverlay";
+export { OffsetHistogram } from "./OffsetHistogram";
 export { MarkerControls } from "./MarkerControls";
 export { SelectionGroupControls } from "./SelectionGroupControls";
 export { RealtimePredictionManager } from "./RealtimePredictionManager";
-export { fetchSelections, fetchMultipleSelections } from "./api/selectionsApi";
-export * from "./model/types";
\ No newline at end of file
+export { SelectionExportControls } from "./SelectionExportControls";
+export { SelectionImportControls } from "./SelectionImportControls";
+export {
+  fetchSelections,
+  fetchMultipleSelections,
+  serializeClickTimestamps,
+  serializeSelections,
+  parseSelectionFile,
+  detectSelectionFileFormat,
+  SELECTION_FILE_FORMATS,
+} from "./api/selectionsApi";
+export type { SelectionFileFormat, SelectionFileImport } from "./api/selectionsApi";
+export {
+  parseRavenSelectionTable,
+  serializeRavenSelectionTable,
+} from "./api/ravenSelectionTable";
+export { parseAudacityLabels, serializeAudacityLabels } from "./api/audacityLabels";
+export type { AudacityLabelRange } from "./api/audacityLabels";
+export * from "./model";
\ No newline at end of file
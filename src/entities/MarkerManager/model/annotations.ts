@@ -0,0 +1,40 @@
+import { Selection, SelectionGroup } from './types';
+
+/**
+ * ID of the editable group that holds manual annotations
+ */
+export const ANNOTATION_GROUP_ID = 'annotations';
+
+/**
+ * Create the empty, editable group that receives manual annotations
+ */
+export const createAnnotationGroup = (): SelectionGroup => ({
+  id: ANNOTATION_GROUP_ID,
+  name: 'Annotations',
+  color: '#9C27B0', // Purple
+  description: 'Clicks labelled manually in annotation mode',
+  selections: [],
+  editable: true,
+});
+
+let annotationCounter = 0;
+
+/**
+ * Create a click selection at the given time for a manual annotation
+ */
+export const createAnnotationSelection = (
+  time: number,
+  audioId: string,
+  category?: string
+): Selection => {
+  annotationCounter++;
+
+  return {
+    id: `annotation_${Date.now()}_${annotationCounter}`,
+    beginTime: time,
+    endTime: time + 0.001, // Very small duration for click markers
+    source: ANNOTATION_GROUP_ID,
+    audioId,
+    category,
+  };
+};
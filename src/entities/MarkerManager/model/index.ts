@@ -1 +1,4 @@
-export * from './types'; 
\ No newline at end of file
+export * from './types';
+export * from './annotations';
+export * from './selectionFilters';
+export * from './predictionReview';
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { Selection, SelectionGroup } from './types';
+
+/**
+ * ID of the editable group that receives predictions accepted during review
+ */
+export const CANDIDATE_GROUP_ID = 'ground-truth-candidates';
+
+/**
+ * Outcome of reviewing a single prediction
+ */
+export type ReviewDecision = 'accepted' | 'adjusted' | 'rejected';
+
+/**
+ * Review decisions by prediction (selection) ID
+ */
+export type ReviewDecisions = Record<string, ReviewDecision>;
+
+/**
+ * Summary of how far the review of a set of predictions has progressed
+ */
+export interface ReviewProgress {
+  total: number;
+  reviewed: number;
+  accepted: number;
+  adjusted: number;
+  rejected: number;
+}
+
+/**
+ * Create the empty, editable group that collects reviewed ground truth candidates
+ */
+export const createCandidateGroup = (): SelectionGroup => ({
+  id: CANDIDATE_GROUP_ID,
+  name: 'Ground Truth Candidates',
+  color: '#009688', // Teal
+  description: 'Predictions accepted or adjusted during review',
+  selections: [],
+  editable: true,
+});
+
+/**
+ * ID of the candidate created from a prediction
+ */
+export const getCandidateId = (predictionId: string): string => `candidate_${predictionId}`;
+
+/**
+ * Create the ground truth candidate for an accepted prediction
+ */
+export const createCandidateSelection = (prediction: Selection): Selection => ({
+  ...prediction,
+  id: getCandidateId(prediction.id),
+  source: CANDIDATE_GROUP_ID,
+});
+
+/**
+ * Count the review decisions made for the given predictions
+ */
+export const getReviewProgress = (
+  predictions: Selection[],
+  decisions: ReviewDecisions
+): ReviewProgress => {
+  const progress: ReviewProgress = {
+    total: predictions.length,
+    reviewed: 0,
+    accepted: 0,
+    adjusted: 0,
+    rejected: 0,
+  };
+
+  predictions.forEach((prediction) => {
+    const decision = decisions[prediction.id];
+    if (decision) {
+      progress.reviewed++;
+      progress[decision]++;
+    }
+  });
+
+  return progress;
+};
@@ -0,0 +1,74 @@
+import { CategoryVisibility, Selection } from './types';
+import { UNCATEGORIZED } from '@/shared/config/clickCategories';
+
+/**
+ * Whether a selection belongs to the given audio file
+ *
+ * Uses the audioId field first and falls back to the file name for older selections.
+ */
+export const isSelectionForAudio = (selection: Selection, audioId: string): boolean => {
+  if (selection.audioId) {
+    return selection.audioId.toLowerCase() === audioId.toLowerCase();
+  }
+
+  if (selection.name) {
+    return selection.name.toLowerCase().includes(audioId.toLowerCase());
+  }
+
+  return false;
+};
+
+/**
+ * Key of the audio file a selection belongs to, for grouping selections by file
+ *
+ * Like isSelectionForAudio, the audioId field is compared case-insensitively and older selections
+ * fall back to their file name without directory and extension.
+ */
+export const getSelectionAudioKey = (selection: Selection): string => {
+  if (selection.audioId) {
+    return selection.audioId.toLowerCase();
+  }
+
+  if (selection.name) {
+    const baseName = selection.name.split(/[\\/]/).pop() ?? selection.name;
+    return baseName.replace(/\.[^.]+$/, '').toLowerCase();
+  }
+
+  return '';
+};
+
+/**
+ * Get the selections of a single audio file
+ */
+export const getSelectionsForAudio = (selections: Selection[], audioId: string): Selection[] =>
+  selections.filter((selection) => isSelectionForAudio(selection, audioId));
+
+/**
+ * Key of a selection's category in category filters
+ */
+export const getCategoryKey = (selection: Selection): string => selection.category ?? UNCATEGORIZED;
+
+/**
+ * Whether a selection passes the category filter (categories are visible unless switched off)
+ */
+export const isSelectionCategoryVisible = (
+  selection: Selection,
+  categoryVisibility: CategoryVisibility | undefined
+): boolean => categoryVisibility?.[getCategoryKey(selection)] !== false;
+
+/**
+ * Whether a selection passes the confidence threshold (selections without a score always pass)
+ */
+export const isSelectionAboveThreshold = (
+  selection: Selection,
+  confidenceThreshold: number | undefined
+): boolean =>
+  confidenceThreshold === undefined ||
+  selection.confidence === undefined ||
+  selection.confidence >= confidenceThreshold;
+
+/**
+ * Whether any of the selections carries a confidence score
+ */
+export const hasConfidenceScores = (selections: Selection[]): boolean =>
+  selections.some((selection) => selection.confidence !== undefined);
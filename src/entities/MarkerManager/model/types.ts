@@ -9,6 +9,18 @@ export interface Selection {
   color?: string;
   name?: string;
   audioId?: string;
+  /** Lower frequency bound of the selection box (Hz) */
+  lowFreq?: number;
+  /** Upper frequency bound of the selection box (Hz) */
+  highFreq?: number;
+  /** Audio channel the selection was made on (1-based) */
+  channel?: number;
+  /** Free-form annotation columns, e.g. from a Raven selection table */
+  annotations?: Record<string, string>;
+  /** Click category ID from the click category taxonomy (e.g. 'regular', 'coda') */
+  category?: string;
+  /** Detection confidence score, e.g. of a model prediction (higher is more confident) */
+  confidence?: number;
 }
 
 /**
@@ -21,6 +33,10 @@ export interface SelectionGroup {
   description: string;
   selections: Selection[];
   visible?: boolean;
+  /** Whether selections in this group can be added, moved or removed by the user */
+  editable?: boolean;
+  /** Annotator who labelled the selections, for groups compared in inter-annotator agreement */
+  annotatorId?: string;
 }
 
 /**
@@ -30,6 +46,29 @@ export interface SelectionVisibility {
   [groupId: string]: boolean;
 }
 
+/**
+ * A coda: a run of consecutive clicks of one selection group
+ *
+ * The coda is defined by its time span; its clicks are the group's clicks within the span.
+ */
+export interface Coda {
+  id: string;
+  /** Selection group the clicks belong to */
+  groupId: string;
+  audioId: string;
+  /** Time of the first click (seconds) */
+  beginTime: number;
+  /** Time of the last click (seconds) */
+  endTime: number;
+}
+
+/**
+ * Controls which click categories are visible (uncategorized clicks use the UNCATEGORIZED key)
+ */
+export interface CategoryVisibility {
+  [categoryId: string]: boolean;
+}
+
 // Legacy type, kept for backward compatibility
 export interface MarkerVisibility {
   begin: boolean;
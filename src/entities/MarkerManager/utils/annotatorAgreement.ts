@@ -0,0 +1,252 @@
+/**
+ * Inter-annotator agreement utilities for groups labelled by different annotators
+ */
+
+import { Selection, SelectionGroup } from '../model/types';
+import { getSelectionsForAudio } from '../model/selectionFilters';
+import {
+  EvaluationMetrics,
+  MatchingStrategy,
+  calculateEvaluationMetrics,
+} from './evaluationMetrics';
+
+/**
+ * ID of the group holding the majority-vote consensus of the annotators
+ */
+export const CONSENSUS_GROUP_ID = 'annotator-consensus';
+
+/**
+ * Agreement between the clicks of two annotators
+ */
+export interface PairwiseAgreement {
+  groupIdA: string;
+  groupIdB: string;
+  /**
+   * Metrics of annotator B against annotator A: true positives are clicks marked by both,
+   * false negatives clicks only A marked, false positives clicks only B marked.
+   */
+  metrics: EvaluationMetrics;
+}
+
+/**
+ * A click event: clicks of different annotators within the tolerance of each other
+ */
+export interface AnnotatedEvent {
+  /** Median time of the clicks of the event (seconds) */
+  time: number;
+  /** IDs of the groups (annotators) that marked the event */
+  groupIds: string[];
+}
+
+/**
+ * Agreement across all annotators of a file
+ */
+export interface MultiAnnotatorAgreement {
+  pairwise: PairwiseAgreement[];
+  events: AnnotatedEvent[];
+  /** Mean F1 score over all annotator pairs, or null with fewer than two annotators */
+  meanPairwiseF1: number | null;
+  /** Fleiss' kappa over the click events, or null when it is undefined */
+  fleissKappa: number | null;
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Label of an annotator group, falling back to the group name for untagged groups
+ */
+export const getAnnotatorLabel = (group: SelectionGroup): string => group.annotatorId ?? group.name;
+
+/**
+ * Compare every pair of annotators with the click matching of the evaluation metrics
+ *
+ * @param groups - One group per annotator
+ * @param audioId - Audio file to compare
+ * @param toleranceMs - Largest time difference of matching clicks (ms)
+ * @param matching - How the clicks of two annotators are paired
+ * @returns One entry per pair, in the order of the groups
+ */
+export function calculatePairwiseAgreement(
+  groups: SelectionGroup[],
+  audioId: string,
+  toleranceMs: number,
+  matching: MatchingStrategy = 'greedy'
+): PairwiseAgreement[] {
+  const pairs: PairwiseAgreement[] = [];
+  // Same file lookup as the clustering, so that all agreement measures count the same clicks
+  const selections = groups.map((group) => getSelectionsForAudio(group.selections, audioId));
+
+  for (let a = 0; a < groups.length; a++) {
+    for (let b = a + 1; b < groups.length; b++) {
+      pairs.push({
+        groupIdA: groups[a].id,
+        groupIdB: groups[b].id,
+        metrics: calculateEvaluationMetrics(
+          selections[a],
+          selections[b],
+          toleranceMs,
+          undefined,
+          matching
+        ),
+      });
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Cluster the clicks of all annotators into events
+ *
+ * Clicks are visited in time order. A click joins the most recent event that started within the
+ * tolerance before it and that its annotator hasn't marked yet, otherwise it starts a new event.
+ * Each annotator therefore contributes at most one click to an event.
+ *
+ * @param groups - One group per annotator
+ * @param audioId - Audio file to cluster
+ * @param toleranceMs - Largest time from the first click of an event to its other clicks (ms)
+ * @returns Events in time order
+ */
+export function clusterAnnotatorEvents(
+  groups: SelectionGroup[],
+  audioId: string,
+  toleranceMs: number
+): AnnotatedEvent[] {
+  const toleranceSeconds = toleranceMs / 1000;
+  const clicks = groups
+    .flatMap((group) =>
+      getSelectionsForAudio(group.selections, audioId).map((selection) => ({
+        time: selection.beginTime,
+        groupId: group.id,
+      }))
+    )
+    .sort((a, b) => a.time - b.time);
+
+  const clusters: { start: number; times: number[]; groupIds: string[] }[] = [];
+
+  for (const click of clicks) {
+    let target: (typeof clusters)[number] | undefined;
+
+    for (let i = clusters.length - 1; i >= 0; i--) {
+      const cluster = clusters[i];
+      if (click.time - cluster.start > toleranceSeconds) break;
+      if (!cluster.groupIds.includes(click.groupId)) {
+        target = cluster;
+        break;
+      }
+    }
+
+    if (target) {
+      target.times.push(click.time);
+      target.groupIds.push(click.groupId);
+    } else {
+      clusters.push({ start: click.time, times: [click.time], groupIds: [click.groupId] });
+    }
+  }
+
+  return clusters.map((cluster) => ({
+    time: median(cluster.times),
+    groupIds: cluster.groupIds,
+  }));
+}
+
+/**
+ * Calculate Fleiss' kappa over click events, each event rated "click" or "no click" by every
+ * annotator
+ *
+ * Only events marked by at least one annotator are rated, since click detection has no
+ * countable negatives. The kappa therefore tends to be lower than for a task with true
+ * negatives and is best compared between annotator sets of the same recordings.
+ *
+ * @param events - Events from clusterAnnotatorEvents
+ * @param annotatorCount - Number of annotators
+ * @returns Kappa, 1 when every annotator marked every event, or null without events or with
+ * fewer than two annotators
+ */
+export function calculateFleissKappa(
+  events: AnnotatedEvent[],
+  annotatorCount: number
+): number | null {
+  if (events.length === 0 || annotatorCount < 2) {
+    return null;
+  }
+
+  const n = annotatorCount;
+  let agreementSum = 0;
+  let markedSum = 0;
+
+  for (const event of events) {
+    const marked = event.groupIds.length;
+    const unmarked = n - marked;
+    agreementSum += (marked * (marked - 1) + unmarked * (unmarked - 1)) / (n * (n - 1));
+    markedSum += marked;
+  }
+
+  const observed = agreementSum / events.length;
+  const markedShare = markedSum / (events.length * n);
+  const expected = markedShare * markedShare + (1 - markedShare) * (1 - markedShare);
+
+  if (expected >= 1) {
+    return observed >= 1 ? 1 : null;
+  }
+
+  return (observed - expected) / (1 - expected);
+}
+
+/**
+ * Calculate pairwise and overall agreement of a set of annotators
+ *
+ * @param groups - One group per annotator
+ * @param audioId - Audio file to compare
+ * @param toleranceMs - Matching tolerance (ms)
+ * @param matching - How the clicks of two annotators are paired
+ */
+export function calculateAnnotatorAgreement(
+  groups: SelectionGroup[],
+  audioId: string,
+  toleranceMs: number,
+  matching: MatchingStrategy = 'greedy'
+): MultiAnnotatorAgreement {
+  const pairwise = calculatePairwiseAgreement(groups, audioId, toleranceMs, matching);
+  const events = clusterAnnotatorEvents(groups, audioId, toleranceMs);
+
+  return {
+    pairwise,
+    events,
+    meanPairwiseF1:
+      pairwise.length > 0
+        ? pairwise.reduce((sum, pair) => sum + pair.metrics.f1Score, 0) / pairwise.length
+        : null,
+    fleissKappa: calculateFleissKappa(events, groups.length),
+  };
+}
+
+/**
+ * Create the consensus of the annotators: one click per event marked by a majority of them
+ *
+ * @param groups - One group per annotator
+ * @param audioId - Audio file of the consensus
+ * @param toleranceMs - Matching tolerance (ms)
+ * @returns Consensus clicks at the median time of the annotators' clicks, in time order
+ */
+export function createConsensusSelections(
+  groups: SelectionGroup[],
+  audioId: string,
+  toleranceMs: number
+): Selection[] {
+  return clusterAnnotatorEvents(groups, audioId, toleranceMs)
+    .filter((event) => event.groupIds.length > groups.length / 2)
+    .map((event, index) => ({
+      id: `${CONSENSUS_GROUP_ID}_${audioId}_${index}`,
+      beginTime: event.time,
+      endTime: event.time + 0.01, // Minimal duration
+      source: CONSENSUS_GROUP_ID,
+      name: `${audioId}.wav`,
+      audioId,
+      annotations: { votes: `${event.groupIds.length}/${groups.length}` },
+    }));
+}
@@ -0,0 +1,285 @@
+/**
+ * Bootstrap confidence intervals of evaluation metrics and paired comparison of two candidates
+ */
+
+import { Selection } from '../model/types';
+import { EvaluationMetrics } from './evaluationMetrics';
+import { AveragedMetrics, FileEvaluation, getMetricsFromCounts } from './datasetEvaluation';
+
+/**
+ * What is drawn with replacement in each bootstrap sample
+ *
+ * - file: whole audio files with all their clicks
+ * - click: reference clicks and unmatched candidate clicks, pooled over all files
+ */
+export type BootstrapResampling = 'file' | 'click';
+
+export interface BootstrapOptions {
+  resampling: BootstrapResampling;
+  /** Number of bootstrap samples */
+  iterations: number;
+  /** Coverage of the intervals, e.g. 0.95 */
+  confidenceLevel: number;
+  /** Seed of the random number generator, so that results can be reproduced */
+  seed: number;
+}
+
+export const DEFAULT_BOOTSTRAP_OPTIONS: BootstrapOptions = {
+  resampling: 'click',
+  iterations: 1000,
+  confidenceLevel: 0.95,
+  seed: 1,
+};
+
+/**
+ * Point estimate with a percentile bootstrap interval
+ */
+export interface ConfidenceInterval {
+  estimate: number;
+  lower: number;
+  upper: number;
+}
+
+export interface MetricIntervals {
+  precision: ConfidenceInterval;
+  recall: ConfidenceInterval;
+  f1Score: ConfidenceInterval;
+}
+
+/**
+ * Difference of a metric between two candidates with its two-sided bootstrap p-value
+ */
+export interface MetricDifference extends ConfidenceInterval {
+  pValue: number;
+}
+
+/**
+ * Paired comparison of candidate B against candidate A on the same reference and files
+ */
+export interface PairedComparison {
+  a: MetricIntervals;
+  b: MetricIntervals;
+  /** Metrics of B minus metrics of A */
+  difference: {
+    precision: MetricDifference;
+    recall: MetricDifference;
+    f1Score: MetricDifference;
+  };
+}
+
+/**
+ * True positive, false positive and false negative counts
+ */
+type Counts = [truePositives: number, falsePositives: number, falseNegatives: number];
+
+type MetricKey = 'precision' | 'recall' | 'f1Score';
+
+/**
+ * Seeded pseudo-random number generator (mulberry32) returning numbers in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Value at a quantile of sorted values, interpolating linearly between neighbours
+ */
+const getQuantile = (sorted: number[], quantile: number): number => {
+  const position = (sorted.length - 1) * quantile;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const getInterval = (
+  estimate: number,
+  samples: number[],
+  confidenceLevel: number
+): ConfidenceInterval => {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const alpha = 1 - confidenceLevel;
+
+  return {
+    estimate,
+    lower: getQuantile(sorted, alpha / 2),
+    upper: getQuantile(sorted, 1 - alpha / 2),
+  };
+};
+
+/**
+ * Two-sided p-value of a zero difference: twice the share of samples on the far side of zero
+ */
+const getPValue = (samples: number[]): number => {
+  const atOrBelow = samples.filter((value) => value <= 0).length;
+  const atOrAbove = samples.filter((value) => value >= 0).length;
+  return Math.min(1, (2 * Math.min(atOrBelow, atOrAbove)) / samples.length);
+};
+
+const getFileCounts = (metrics: EvaluationMetrics): Counts => [
+  metrics.truePositives,
+  metrics.falsePositives,
+  metrics.falseNegatives,
+];
+
+const getMetrics = (units: Counts[]): AveragedMetrics => {
+  const total = units.reduce<Counts>(
+    (sum, unit) => [sum[0] + unit[0], sum[1] + unit[1], sum[2] + unit[2]],
+    [0, 0, 0]
+  );
+  return getMetricsFromCounts(...total);
+};
+
+/**
+ * Key of a reference click that is the same in the evaluations of both candidates
+ */
+const getClickKey = (audioId: string, selection: Selection) =>
+  `${audioId}|${selection.id}|${selection.beginTime}`;
+
+/**
+ * Resampling units of one or two candidates, as counts per candidate
+ *
+ * File units hold the counts of a file. Click units are a reference click (a true positive or
+ * false negative of each candidate, so that both candidates are paired on it) or an unmatched
+ * candidate click (a false positive of that candidate only).
+ */
+const getUnits = (evaluations: FileEvaluation[][], resampling: BootstrapResampling): Counts[][] => {
+  if (resampling === 'file') {
+    return evaluations[0].map((_, fileIndex) =>
+      evaluations.map((files) => getFileCounts(files[fileIndex].metrics))
+    );
+  }
+
+  const empty = (): Counts[] => evaluations.map(() => [0, 0, 0]);
+  const referenceUnits = new Map<string, Counts[]>();
+  const falsePositiveUnits: Counts[][] = [];
+
+  evaluations.forEach((files, candidateIndex) => {
+    files.forEach(({ audioId, metrics }) => {
+      const addReference = (selection: Selection, isMatched: boolean) => {
+        const key = getClickKey(audioId, selection);
+        const unit = referenceUnits.get(key) ?? empty();
+        unit[candidateIndex][isMatched ? 0 : 2] = 1;
+        referenceUnits.set(key, unit);
+      };
+
+      metrics.matches.forEach((match) => addReference(match.groundTruth, true));
+      metrics.unmatchedGroundTruth.forEach((selection) => addReference(selection, false));
+      metrics.unmatchedPredictions.forEach(() => {
+        const unit = empty();
+        unit[candidateIndex][1] = 1;
+        falsePositiveUnits.push(unit);
+      });
+    });
+  });
+
+  return [...referenceUnits.values(), ...falsePositiveUnits];
+};
+
+/**
+ * Metrics of each candidate in bootstrap samples of the units
+ */
+const resample = (units: Counts[][], candidateCount: number, options: BootstrapOptions) => {
+  const random = createRandom(options.seed);
+
+  return Array.from({ length: options.iterations }, () => {
+    const sample = Array.from(
+      { length: units.length },
+      () => units[Math.floor(random() * units.length)]
+    );
+    return Array.from({ length: candidateCount }, (_, index) =>
+      getMetrics(sample.map((unit) => unit[index]))
+    );
+  });
+};
+
+const getIntervals = (
+  units: Counts[][],
+  samples: AveragedMetrics[][],
+  index: number,
+  confidenceLevel: number
+): MetricIntervals => {
+  const estimate = getMetrics(units.map((unit) => unit[index]));
+  const interval = (key: MetricKey) =>
+    getInterval(
+      estimate[key],
+      samples.map((sample) => sample[index][key]),
+      confidenceLevel
+    );
+
+  return {
+    precision: interval('precision'),
+    recall: interval('recall'),
+    f1Score: interval('f1Score'),
+  };
+};
+
+/**
+ * Bootstrap confidence intervals of the micro-averaged precision, recall and F1 score
+ *
+ * @param files - Evaluation of a candidate in each file
+ * @param options - Resampling unit, number of samples, coverage and seed
+ * @returns Intervals around the metrics of the summed counts, or null without any clicks
+ */
+export function calculateBootstrapIntervals(
+  files: FileEvaluation[],
+  options: BootstrapOptions = DEFAULT_BOOTSTRAP_OPTIONS
+): MetricIntervals | null {
+  const units = getUnits([files], options.resampling);
+  if (units.length === 0 || options.iterations < 1) return null;
+
+  return getIntervals(units, resample(units, 1, options), 0, options.confidenceLevel);
+}
+
+/**
+ * Paired bootstrap comparison of two candidates evaluated against the same reference
+ *
+ * Both candidates are resampled together, so that differences in difficulty between files or
+ * clicks affect both alike.
+ *
+ * @param filesA - Evaluation of candidate A in each file
+ * @param filesB - Evaluation of candidate B in the same files, in the same order
+ * @param options - Resampling unit, number of samples, coverage and seed
+ * @returns Intervals of both candidates and of their difference, or null without any clicks
+ */
+export function comparePairedBootstrap(
+  filesA: FileEvaluation[],
+  filesB: FileEvaluation[],
+  options: BootstrapOptions = DEFAULT_BOOTSTRAP_OPTIONS
+): PairedComparison | null {
+  if (filesA.length !== filesB.length) {
+    throw new Error('Both candidates must be evaluated on the same files');
+  }
+
+  const units = getUnits([filesA, filesB], options.resampling);
+  if (units.length === 0 || options.iterations < 1) return null;
+
+  const samples = resample(units, 2, options);
+  const a = getIntervals(units, samples, 0, options.confidenceLevel);
+  const b = getIntervals(units, samples, 1, options.confidenceLevel);
+
+  const getDifference = (key: MetricKey): MetricDifference => {
+    const differences = samples.map((sample) => sample[1][key] - sample[0][key]);
+    return {
+      ...getInterval(b[key].estimate - a[key].estimate, differences, options.confidenceLevel),
+      pValue: getPValue(differences),
+    };
+  };
+
+  return {
+    a,
+    b,
+    difference: {
+      precision: getDifference('precision'),
+      recall: getDifference('recall'),
+      f1Score: getDifference('f1Score'),
+    },
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Errors of chunked real-time predictions by their distance to the nearest chunk boundary
+ */
+
+import { AudioChunk } from '@/shared/stores/wavesurfer/audioChunking';
+import { EvaluationMetrics } from './evaluationMetrics';
+
+/**
+ * Time range of a prediction chunk, without its audio data
+ */
+export type ChunkWindow = Pick<
+  AudioChunk,
+  'index' | 'startTime' | 'endTime' | 'paddedStartTime' | 'paddedEndTime'
+>;
+
+/**
+ * Clicks at a range of distances to the nearest chunk boundary
+ */
+export interface BoundaryDistanceBin {
+  /** Lower bound of the distance (seconds, inclusive) */
+  start: number;
+  /** Upper bound of the distance (seconds, exclusive except for the last bin) */
+  end: number;
+  matched: number;
+  falsePositives: number;
+  falseNegatives: number;
+}
+
+/**
+ * Keep the time ranges of chunks, dropping their audio data
+ */
+export function getChunkWindows(chunks: AudioChunk[]): ChunkWindow[] {
+  return chunks.map(({ index, startTime, endTime, paddedStartTime, paddedEndTime }) => ({
+    index,
+    startTime,
+    endTime,
+    paddedStartTime,
+    paddedEndTime,
+  }));
+}
+
+/**
+ * Times where predictions of one chunk hand over to the next
+ *
+ * These are the edges of the chunk windows predictions are kept in, except the start and end of
+ * the audio file.
+ *
+ * @param chunks - Chunks of one audio file
+ * @returns Boundary times in ascending order
+ */
+export function getChunkBoundaries(chunks: ChunkWindow[]): number[] {
+  if (chunks.length < 2) return [];
+
+  const fileStart = Math.min(...chunks.map((chunk) => chunk.startTime));
+  const fileEnd = Math.max(...chunks.map((chunk) => chunk.endTime));
+  const edges = new Set(chunks.flatMap((chunk) => [chunk.startTime, chunk.endTime]));
+
+  return [...edges].filter((time) => time > fileStart && time < fileEnd).sort((a, b) => a - b);
+}
+
+/**
+ * Distance from a time to the nearest boundary (seconds), Infinity without boundaries
+ */
+export function getBoundaryDistance(time: number, boundaries: number[]): number {
+  return boundaries.reduce(
+    (nearest, boundary) => Math.min(nearest, Math.abs(time - boundary)),
+    Infinity
+  );
+}
+
+/**
+ * Count matched pairs and errors of an evaluation by their distance to the nearest chunk boundary
+ *
+ * Matched pairs and false negatives are placed at the reference click, false positives at the
+ * candidate click. The bins reach half the longest chunk; clicks farther away, which can only be
+ * in the first or last chunk, are counted in the last bin.
+ *
+ * @param metrics - Evaluation of the whole file
+ * @param chunks - Chunks the file was split into for predictions
+ * @param binWidth - Width of each distance bin (seconds)
+ * @returns Bins in ascending order of distance, empty with fewer than two chunks
+ */
+export function analyzeChunkBoundaryErrors(
+  metrics: EvaluationMetrics,
+  chunks: ChunkWindow[],
+  binWidth: number
+): BoundaryDistanceBin[] {
+  const boundaries = getChunkBoundaries(chunks);
+  if (boundaries.length === 0 || binWidth <= 0) return [];
+
+  const maxDistance = Math.max(...chunks.map((chunk) => chunk.endTime - chunk.startTime)) / 2;
+  const binCount = Math.max(1, Math.ceil(maxDistance / binWidth));
+  const bins: BoundaryDistanceBin[] = Array.from({ length: binCount }, (_, index) => ({
+    start: index * binWidth,
+    end: (index + 1) * binWidth,
+    matched: 0,
+    falsePositives: 0,
+    falseNegatives: 0,
+  }));
+
+  const add = (time: number, key: 'matched' | 'falsePositives' | 'falseNegatives') => {
+    const distance = getBoundaryDistance(time, boundaries);
+    bins[Math.min(binCount - 1, Math.floor(distance / binWidth))][key] += 1;
+  };
+
+  metrics.matches.forEach((match) => add(match.groundTruth.beginTime, 'matched'));
+  metrics.unmatchedPredictions.forEach((selection) => add(selection.beginTime, 'falsePositives'));
+  metrics.unmatchedGroundTruth.forEach((selection) => add(selection.beginTime, 'falseNegatives'));
+
+  return bins;
+}
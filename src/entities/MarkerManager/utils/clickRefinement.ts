@@ -0,0 +1,114 @@
+/**
+ * Snap-to-peak refinement of click times using the decoded audio
+ */
+
+import { Selection } from '../model/types';
+
+/**
+ * Signal whose maximum marks the click
+ *
+ * - envelope: rectified amplitude |x[n]|
+ * - teager-kaiser: Teager-Kaiser energy x[n]² − x[n−1]·x[n+1], which favours short, sharp
+ *   transients over longer tonal energy
+ */
+export type RefinementMethod = 'envelope' | 'teager-kaiser';
+
+export interface ClickRefinementOptions {
+  method: RefinementMethod;
+  /** Largest distance a click is moved, in either direction (seconds) */
+  searchRadius: number;
+}
+
+export const DEFAULT_CLICK_REFINEMENT_OPTIONS: ClickRefinementOptions = {
+  method: 'teager-kaiser',
+  searchRadius: 0.001,
+};
+
+/**
+ * Find the time of the largest envelope or Teager-Kaiser energy value around a time
+ *
+ * @param samples - Samples of one channel
+ * @param sampleRate - Sample rate of the samples (Hz)
+ * @param time - Time to search around (seconds)
+ * @param options - Method and search radius
+ * @returns Time of the maximum (seconds), or the given time when it lies outside the samples or
+ * the window is silent
+ */
+export function findClickPeak(
+  samples: Float32Array,
+  sampleRate: number,
+  time: number,
+  options: ClickRefinementOptions
+): number {
+  const center = Math.round(time * sampleRate);
+  const radius = Math.max(1, Math.round(options.searchRadius * sampleRate));
+  // Teager-Kaiser energy needs one neighbouring sample on each side
+  const start = Math.max(1, center - radius);
+  const end = Math.min(samples.length - 2, center + radius);
+
+  if (start > end) {
+    return time;
+  }
+
+  let peakIndex = start;
+  let peakValue = -Infinity;
+
+  for (let i = start; i <= end; i++) {
+    const value =
+      options.method === 'teager-kaiser'
+        ? samples[i] * samples[i] - samples[i - 1] * samples[i + 1]
+        : Math.abs(samples[i]);
+
+    if (value > peakValue) {
+      peakValue = value;
+      peakIndex = i;
+    }
+  }
+
+  return peakValue > 0 ? peakIndex / sampleRate : time;
+}
+
+/**
+ * Move each selection to the envelope or Teager-Kaiser energy maximum near its begin time
+ *
+ * Selections keep their duration and are analysed on their own channel, or on the first
+ * channel when they don't name one.
+ *
+ * @param selections - Selections to refine (all of the same audio file as the buffer)
+ * @param audioBuffer - Decoded audio of the file
+ * @param options - Method and search radius
+ * @returns Refined copies of the selections with new IDs, in the order of the selections
+ */
+export function refineSelections(
+  selections: Selection[],
+  audioBuffer: AudioBuffer,
+  options: ClickRefinementOptions = DEFAULT_CLICK_REFINEMENT_OPTIONS
+): Selection[] {
+  const channels = new Map<number, Float32Array>();
+  const getChannel = (selection: Selection) => {
+    const channel = Math.min(
+      audioBuffer.numberOfChannels - 1,
+      Math.max(0, (selection.channel ?? 1) - 1)
+    );
+    if (!channels.has(channel)) {
+      channels.set(channel, audioBuffer.getChannelData(channel));
+    }
+    return channels.get(channel)!;
+  };
+
+  return selections.map((selection) => {
+    const beginTime = findClickPeak(
+      getChannel(selection),
+      audioBuffer.sampleRate,
+      selection.beginTime,
+      options
+    );
+
+    return {
+      ...selection,
+      id: `${selection.id}_refined`,
+      beginTime,
+      endTime: beginTime + (selection.endTime - selection.beginTime),
+    };
+  });
+}
@@ -0,0 +1,124 @@
+/**
+ * Suppression of near-duplicate clicks (non-maximum suppression)
+ */
+
+import { Selection } from '../model/types';
+import { getSelectionAudioKey } from '../model/selectionFilters';
+
+/**
+ * Which click of a run of near-duplicates is kept
+ *
+ * - confidence: the click with the highest confidence score; clicks without a score rank last,
+ *   and ties are broken by time
+ * - earliest: the first click in time
+ */
+export type SuppressionKeep = 'confidence' | 'earliest';
+
+export interface ClickSuppressionOptions {
+  /** Clicks closer than this to a kept click are removed (seconds) */
+  refractoryWindow: number;
+  keep: SuppressionKeep;
+}
+
+export const DEFAULT_CLICK_SUPPRESSION_OPTIONS: ClickSuppressionOptions = {
+  refractoryWindow: 0.005,
+  keep: 'confidence',
+};
+
+/**
+ * A removed click and the kept click it duplicates
+ */
+export interface SuppressedClick {
+  selection: Selection;
+  keptBy: Selection;
+}
+
+export interface ClickSuppressionResult {
+  /** Kept clicks, in the order of the input */
+  kept: Selection[];
+  /** Removed clicks in time order */
+  removed: SuppressedClick[];
+}
+
+/**
+ * Clicks are only duplicates of clicks in the same file and channel
+ */
+const getTrackKey = (selection: Selection) =>
+  `${getSelectionAudioKey(selection)}|${selection.channel ?? ''}`;
+
+const getScore = (selection: Selection) => selection.confidence ?? -Infinity;
+
+/**
+ * Index of the first selection at or after a time in selections sorted by begin time
+ */
+const findInsertionIndex = (sorted: Selection[], time: number) => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (sorted[middle].beginTime < time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+/**
+ * Remove clicks that are closer than a refractory window to a better click
+ *
+ * Clicks are visited from the best to the worst: each is kept unless a kept click of the same
+ * file and channel lies within the refractory window. In a run of clicks that are each close to
+ * the next, clicks farther than the window from every kept click are kept as well.
+ *
+ * @param selections - Clicks of any number of files
+ * @param options - Refractory window and which click to keep
+ * @returns Kept and removed clicks
+ */
+export function suppressDuplicateClicks(
+  selections: Selection[],
+  options: ClickSuppressionOptions = DEFAULT_CLICK_SUPPRESSION_OPTIONS
+): ClickSuppressionResult {
+  if (options.refractoryWindow <= 0) {
+    return { kept: [...selections], removed: [] };
+  }
+
+  const ranked = [...selections].sort((a, b) =>
+    options.keep === 'confidence' && getScore(a) !== getScore(b)
+      ? getScore(b) - getScore(a)
+      : a.beginTime - b.beginTime
+  );
+
+  // Kept clicks of each file and channel, sorted by begin time
+  const keptByTrack = new Map<string, Selection[]>();
+  const kept = new Set<Selection>();
+  const removed: SuppressedClick[] = [];
+
+  ranked.forEach((selection) => {
+    const key = getTrackKey(selection);
+    const track = keptByTrack.get(key) ?? [];
+    const index = findInsertionIndex(track, selection.beginTime);
+
+    const nearest = [track[index - 1], track[index]]
+      .filter((item): item is Selection => item !== undefined)
+      .sort(
+        (a, b) =>
+          Math.abs(a.beginTime - selection.beginTime) - Math.abs(b.beginTime - selection.beginTime)
+      )[0];
+
+    if (nearest && Math.abs(nearest.beginTime - selection.beginTime) < options.refractoryWindow) {
+      removed.push({ selection, keptBy: nearest });
+      return;
+    }
+
+    track.splice(index, 0, selection);
+    keptByTrack.set(key, track);
+    kept.add(selection);
+  });
+
+  return {
+    kept: selections.filter((selection) => kept.has(selection)),
+    removed: removed.sort((a, b) => a.selection.beginTime - b.selection.beginTime),
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Coda grouping and inter-click-interval (ICI) utilities
+ */
+
+import { Coda, Selection, SelectionGroup } from '../model/types';
+import { getSelectionsForAudio } from '../model/selectionFilters';
+
+/**
+ * Options for automatic coda detection
+ */
+export interface CodaDetectionOptions {
+  /** Largest interval between consecutive clicks of the same coda (seconds) */
+  maxIci: number;
+  /** Smallest number of clicks that form a coda */
+  minClicks: number;
+}
+
+export const DEFAULT_CODA_DETECTION_OPTIONS: CodaDetectionOptions = {
+  maxIci: 0.5,
+  minClicks: 3,
+};
+
+/**
+ * Click count, duration and ICIs of a coda
+ */
+export interface CodaStats {
+  clickTimes: number[];
+  clickCount: number;
+  /** Time from the first to the last click (seconds) */
+  duration: number;
+  /** Intervals between consecutive clicks (seconds) */
+  icis: number[];
+}
+
+let codaCounter = 0;
+
+const createCoda = (groupId: string, audioId: string, beginTime: number, endTime: number): Coda => {
+  codaCounter++;
+
+  return {
+    id: `coda_${Date.now()}_${codaCounter}`,
+    groupId,
+    audioId,
+    beginTime,
+    endTime,
+  };
+};
+
+/**
+ * Sorted click times of a group's selections in one audio file
+ */
+const getSortedClickTimes = (selections: Selection[], audioId: string): number[] =>
+  getSelectionsForAudio(selections, audioId)
+    .map((selection) => selection.beginTime)
+    .sort((a, b) => a - b);
+
+/**
+ * Calculate the intervals between consecutive click times
+ *
+ * @param clickTimes - Click times sorted in ascending order (seconds)
+ * @returns Inter-click intervals (seconds), one fewer than the number of clicks
+ */
+export function calculateIcis(clickTimes: number[]): number[] {
+  return clickTimes.slice(1).map((time, index) => time - clickTimes[index]);
+}
+
+/**
+ * Split the clicks of a group into codas wherever the ICI exceeds a threshold
+ *
+ * @param group - Group whose clicks are grouped
+ * @param audioId - Audio file to analyse
+ * @param options - ICI threshold and minimum number of clicks per coda
+ * @returns Detected codas in time order
+ */
+export function detectCodas(
+  group: SelectionGroup,
+  audioId: string,
+  options: CodaDetectionOptions = DEFAULT_CODA_DETECTION_OPTIONS
+): Coda[] {
+  const clickTimes = getSortedClickTimes(group.selections, audioId);
+  const codas: Coda[] = [];
+  let runStart = 0;
+
+  for (let i = 1; i <= clickTimes.length; i++) {
+    const isRunEnd = i === clickTimes.length || clickTimes[i] - clickTimes[i - 1] > options.maxIci;
+    if (!isRunEnd) continue;
+
+    if (i - runStart >= options.minClicks) {
+      codas.push(createCoda(group.id, audioId, clickTimes[runStart], clickTimes[i - 1]));
+    }
+    runStart = i;
+  }
+
+  return codas;
+}
+
+/**
+ * Create a coda from the clicks of a group within a time range
+ *
+ * @param group - Group whose clicks form the coda
+ * @param audioId - Audio file of the clicks
+ * @param start - Start of the range (seconds)
+ * @param end - End of the range (seconds)
+ * @returns The coda spanning the first to the last click in the range, or null without clicks
+ */
+export function createCodaFromRange(
+  group: SelectionGroup,
+  audioId: string,
+  start: number,
+  end: number
+): Coda | null {
+  const clickTimes = getSortedClickTimes(group.selections, audioId).filter(
+    (time) => time >= start && time <= end
+  );
+
+  if (clickTimes.length === 0) {
+    return null;
+  }
+
+  return createCoda(group.id, audioId, clickTimes[0], clickTimes[clickTimes.length - 1]);
+}
+
+/**
+ * Calculate the click count, duration and ICIs of a coda from its group's current clicks
+ */
+export function getCodaStats(coda: Coda, group: SelectionGroup | undefined): CodaStats {
+  const clickTimes = getSortedClickTimes(group?.selections ?? [], coda.audioId).filter(
+    (time) => time >= coda.beginTime && time <= coda.endTime
+  );
+
+  return {
+    clickTimes,
+    clickCount: clickTimes.length,
+    duration: clickTimes.length > 1 ? clickTimes[clickTimes.length - 1] - clickTimes[0] : 0,
+    icis: calculateIcis(clickTimes),
+  };
+}
+
+/**
+ * Serializes codas into a coda table (CSV), one row per coda with one column per ICI
+ *
+ * Columns: coda_id, file_name, group_id, begin_time, end_time, duration, click_count,
+ * ici_1 … ici_n (seconds, rounded to microseconds; empty where a coda has fewer ICIs than the
+ * longest one)
+ *
+ * @param codas - Codas to export
+ * @param selectionGroups - Groups holding the clicks of the codas
+ * @returns CSV content
+ */
+export function serializeCodaTable(codas: Coda[], selectionGroups: SelectionGroup[]): string {
+  const rows = [...codas]
+    .sort((a, b) => a.audioId.localeCompare(b.audioId) || a.beginTime - b.beginTime)
+    .map((coda) => ({
+      coda,
+      stats: getCodaStats(
+        coda,
+        selectionGroups.find((group) => group.id === coda.groupId)
+      ),
+    }));
+
+  const maxIcis = Math.max(0, ...rows.map(({ stats }) => stats.icis.length));
+  const iciColumns = Array.from({ length: maxIcis }, (_, index) => `ici_${index + 1}`);
+
+  const header = [
+    'coda_id',
+    'file_name',
+    'group_id',
+    'begin_time',
+    'end_time',
+    'duration',
+    'click_count',
+    ...iciColumns,
+  ];
+
+  const lines = rows.map(({ coda, stats }, index) =>
+    [
+      String(index + 1),
+      `${coda.audioId}.wav`,
+      coda.groupId,
+      String(coda.beginTime),
+      String(coda.endTime),
+      stats.duration.toFixed(6),
+      String(stats.clickCount),
+      ...iciColumns.map((_, i) => (i < stats.icis.length ? stats.icis[i].toFixed(6) : '')),
+    ].join(',')
+  );
+
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
@@ -0,0 +1,130 @@
+/**
+ * Evaluation of one selection group against another across several audio files
+ */
+
+import { Selection } from '../model/types';
+import { getSelectionsForAudio } from '../model/selectionFilters';
+import {
+  EvaluationMetrics,
+  MatchingStrategy,
+  calculateEvaluationMetrics,
+} from './evaluationMetrics';
+
+/**
+ * Metrics of one audio file
+ */
+export interface FileEvaluation {
+  audioId: string;
+  metrics: EvaluationMetrics;
+}
+
+/**
+ * Precision, recall and F1 score averaged over files
+ */
+export interface AveragedMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1Score: number;
+}
+
+export interface DatasetEvaluation {
+  files: FileEvaluation[];
+  /** Metrics of the summed counts of all files */
+  micro: AveragedMetrics;
+  /** Mean of the per-file metrics, over files with reference or candidate clicks */
+  macro: AveragedMetrics;
+}
+
+/**
+ * Precision, recall and F1 score of summed counts
+ */
+export const getMetricsFromCounts = (
+  truePositives: number,
+  falsePositives: number,
+  falseNegatives: number
+): AveragedMetrics => {
+  const precision =
+    truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0;
+  const recall =
+    truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0;
+
+  return {
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision,
+    recall,
+    f1Score: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+  };
+};
+
+/**
+ * Micro average: metrics of the counts summed over all files
+ */
+export function calculateMicroAverage(files: FileEvaluation[]): AveragedMetrics {
+  const sum = (key: 'truePositives' | 'falsePositives' | 'falseNegatives') =>
+    files.reduce((total, file) => total + file.metrics[key], 0);
+
+  return getMetricsFromCounts(sum('truePositives'), sum('falsePositives'), sum('falseNegatives'));
+}
+
+/**
+ * Macro average: mean of the per-file metrics, skipping files without any clicks
+ */
+export function calculateMacroAverage(files: FileEvaluation[]): AveragedMetrics {
+  const scored = files.filter(
+    (file) => file.metrics.totalGroundTruth > 0 || file.metrics.totalPredictions > 0
+  );
+  const mean = (key: keyof AveragedMetrics) =>
+    scored.length > 0
+      ? scored.reduce((total, file) => total + file.metrics[key], 0) / scored.length
+      : 0;
+
+  return {
+    truePositives: mean('truePositives'),
+    falsePositives: mean('falsePositives'),
+    falseNegatives: mean('falseNegatives'),
+    precision: mean('precision'),
+    recall: mean('recall'),
+    f1Score: mean('f1Score'),
+  };
+}
+
+/**
+ * Evaluate candidate selections against reference selections in each audio file
+ *
+ * @param reference - Reference (ground truth) selections of all files
+ * @param candidates - Candidate (prediction) selections of all files
+ * @param audioIds - Audio files to evaluate
+ * @param toleranceMs - Matching tolerance (ms)
+ * @param matching - How candidates are paired with the reference
+ * @returns Per-file metrics in the order of the audio files, with micro and macro averages
+ */
+export function evaluateDataset(
+  reference: Selection[],
+  candidates: Selection[],
+  audioIds: string[],
+  toleranceMs: number,
+  matching: MatchingStrategy = 'greedy'
+): DatasetEvaluation {
+  const files = audioIds.map((audioId) => ({
+    audioId,
+    // Selections are matched per file so that files without an audioId field are included
+    metrics: calculateEvaluationMetrics(
+      getSelectionsForAudio(reference, audioId),
+      getSelectionsForAudio(candidates, audioId),
+      toleranceMs,
+      undefined,
+      matching
+    ),
+  }));
+
+  return {
+    files,
+    micro: calculateMicroAverage(files),
+    macro: calculateMacroAverage(files),
+  };
+}
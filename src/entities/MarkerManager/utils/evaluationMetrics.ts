@@ -4,6 +4,30 @@
 
 import { Selection } from '../model/types';
 
+/**
+ * Matching tolerance used by the evaluation views unless another one is chosen (in milliseconds)
+ */
+export const DEFAULT_TOLERANCE_MS = 2;
+
+/**
+ * How predictions are paired with ground truth clicks
+ *
+ * - greedy: predictions in time order take the first unmatched ground truth click within tolerance
+ * - optimal: one-to-one matching with the most pairs, and the smallest total time offset among
+ *   those, independent of the order of the predictions
+ */
+export type MatchingStrategy = 'greedy' | 'optimal';
+
+/**
+ * A prediction matched to a ground truth click (a true positive)
+ */
+export interface ClickMatch {
+  groundTruth: Selection;
+  prediction: Selection;
+  /** Prediction time minus ground truth time (in seconds) */
+  offset: number;
+}
+
 /**
  * Evaluation results interface
  */
@@ -28,6 +52,260 @@ export interface EvaluationMetrics {
   totalGroundTruth: number;
   /** Total predictions */
   totalPredictions: number;
+  /** Matching strategy used to pair predictions with ground truth */
+  matching: MatchingStrategy;
+  /** Matched pairs (true positives), in ground truth time order */
+  matches: ClickMatch[];
+  /** Ground truth clicks without a matching prediction (false negatives), in time order */
+  unmatchedGroundTruth: Selection[];
+  /** Predictions without a matching ground truth click (false positives), in time order */
+  unmatchedPredictions: Selection[];
+}
+
+/**
+ * Outcome of a single click in an evaluation
+ *
+ * - matched: ground truth click or prediction that is part of a matched pair
+ * - false-positive: prediction without a matching ground truth click
+ * - false-negative: ground truth click without a matching prediction
+ */
+export type MatchOutcome = 'matched' | 'false-positive' | 'false-negative';
+
+/**
+ * Display label and marker color of each match outcome
+ */
+export const MATCH_OUTCOMES: Record<MatchOutcome, { label: string; color: string }> = {
+  matched: { label: 'Matched', color: '#4CAF50' },
+  'false-positive': { label: 'False positive', color: '#F44336' },
+  'false-negative': { label: 'Missed (false negative)', color: '#FF9800' }
+};
+
+/**
+ * A false positive or false negative of an evaluation
+ */
+export interface EvaluationError {
+  outcome: Exclude<MatchOutcome, 'matched'>;
+  selection: Selection;
+}
+
+/**
+ * Index pairs into sorted ground truth and prediction times
+ */
+type IndexPair = [truthIndex: number, predictionIndex: number];
+
+/**
+ * Greedy matching: each prediction, in time order, takes the first unmatched ground truth
+ * click within tolerance
+ */
+function matchGreedy(
+  truthTimes: number[],
+  predictionTimes: number[],
+  tolerance: number
+): IndexPair[] {
+  const pairs: IndexPair[] = [];
+  const matchedTruthIndices = new Set<number>();
+
+  predictionTimes.forEach((predTime, predIndex) => {
+    for (let i = 0; i < truthTimes.length; i++) {
+      // Only count as TP if this ground truth hasn't been matched yet
+      if (Math.abs(predTime - truthTimes[i]) <= tolerance && !matchedTruthIndices.has(i)) {
+        matchedTruthIndices.add(i);
+        pairs.push([i, predIndex]);
+        break;
+      }
+    }
+  });
+
+  return pairs;
+}
+
+/**
+ * Optimal matching: the most pairs within tolerance, with the smallest total offset among those
+ *
+ * In one dimension there is always an optimal matching without crossing pairs, so it is found
+ * with a sequence alignment over the sorted times. Clicks are first split into clusters that
+ * are more than the tolerance apart, since no pair can span two clusters; the alignment of a
+ * cluster takes time proportional to its ground truth count times the number of predictions
+ * within tolerance of a ground truth click.
+ */
+function matchOptimal(
+  truthTimes: number[],
+  predictionTimes: number[],
+  tolerance: number
+): IndexPair[] {
+  const pairs: IndexPair[] = [];
+  let truthIndex = 0;
+  let predIndex = 0;
+
+  while (truthIndex < truthTimes.length && predIndex < predictionTimes.length) {
+    // Collect a cluster of clicks whose consecutive times are within tolerance
+    const truthStart = truthIndex;
+    const predStart = predIndex;
+    let clusterEnd = -Infinity;
+
+    while (truthIndex < truthTimes.length || predIndex < predictionTimes.length) {
+      const nextTruth = truthIndex < truthTimes.length ? truthTimes[truthIndex] : Infinity;
+      const nextPred = predIndex < predictionTimes.length ? predictionTimes[predIndex] : Infinity;
+      const next = Math.min(nextTruth, nextPred);
+
+      if (clusterEnd !== -Infinity && next - clusterEnd > tolerance) break;
+
+      clusterEnd = next;
+      if (nextTruth <= nextPred) {
+        truthIndex++;
+      } else {
+        predIndex++;
+      }
+    }
+
+    pairs.push(...alignCluster(
+      truthTimes,
+      truthStart,
+      truthIndex,
+      predictionTimes,
+      predStart,
+      predIndex,
+      tolerance
+    ));
+  }
+
+  return pairs;
+}
+
+/**
+ * Predictions a ground truth click can be paired with, and the best alignments ending in them
+ *
+ * Cells are indexed by the number of predictions aligned, from `first` to `last` (1-based). With
+ * no prediction within tolerance, `last` is smaller than `first` and the row is empty.
+ */
+interface BandRow {
+  first: number;
+  last: number;
+  counts: Int32Array;
+  costs: Float64Array;
+  /** Step taken to reach each cell: 1 = skip ground truth, 2 = skip prediction, 3 = match */
+  steps: Uint8Array;
+}
+
+/**
+ * Align ground truth times [truthStart, truthEnd) with prediction times [predStart, predEnd),
+ * maximising the number of pairs within tolerance and then minimising their total offset
+ *
+ * Since both lists are sorted, each ground truth click can only be paired with a band of
+ * predictions within tolerance of it, and the bands move forward from row to row. Only the bands
+ * are stored: left of a band the best alignment is the one of the row above (the ground truth
+ * click is skipped), right of it the one at the end of the band (the predictions are skipped).
+ */
+function alignCluster(
+  truthTimes: number[],
+  truthStart: number,
+  truthEnd: number,
+  predictionTimes: number[],
+  predStart: number,
+  predEnd: number,
+  tolerance: number
+): IndexPair[] {
+  const rows = truthEnd - truthStart;
+  const columns = predEnd - predStart;
+  if (rows === 0 || columns === 0) return [];
+
+  const bandRows: BandRow[] = [];
+
+  // Best count and cost of aligning the first i ground truth clicks with the first j predictions
+  const getCell = (i: number, j: number): [number, number] => {
+    while (i > 0 && j > 0) {
+      const row = bandRows[i - 1];
+      if (row.last < row.first || j < row.first) {
+        i--;
+      } else {
+        const index = Math.min(j, row.last) - row.first;
+        return [row.counts[index], row.costs[index]];
+      }
+    }
+    return [0, 0];
+  };
+
+  let first = 1;
+  let last = 0;
+
+  for (let i = 1; i <= rows; i++) {
+    const truthTime = truthTimes[truthStart + i - 1];
+    // Compare differences as the other matching does, so that rounding decides alike
+    while (first <= columns && predictionTimes[predStart + first - 1] - truthTime < -tolerance) {
+      first++;
+    }
+    last = Math.max(last, first - 1);
+    while (last < columns && predictionTimes[predStart + last] - truthTime <= tolerance) {
+      last++;
+    }
+
+    const width = Math.max(0, last - first + 1);
+    const row: BandRow = {
+      first,
+      last,
+      counts: new Int32Array(width),
+      costs: new Float64Array(width),
+      steps: new Uint8Array(width)
+    };
+    // Added before it is filled, so that cells to the left can be read from it
+    bandRows.push(row);
+
+    for (let j = first; j <= last; j++) {
+      // Skip the ground truth click or the prediction, whichever is better
+      let [count, cost] = getCell(i - 1, j);
+      let step = 1;
+      const [leftCount, leftCost] = getCell(i, j - 1);
+      if (leftCount > count || (leftCount === count && leftCost < cost)) {
+        count = leftCount;
+        cost = leftCost;
+        step = 2;
+      }
+
+      // Or pair them, since every prediction in the band is within tolerance
+      const offset = Math.abs(predictionTimes[predStart + j - 1] - truthTime);
+      const [diagonalCount, diagonalCost] = getCell(i - 1, j - 1);
+      const matchCount = diagonalCount + 1;
+      const matchCost = diagonalCost + offset;
+      if (matchCount > count || (matchCount === count && matchCost < cost)) {
+        count = matchCount;
+        cost = matchCost;
+        step = 3;
+      }
+
+      row.counts[j - first] = count;
+      row.costs[j - first] = cost;
+      row.steps[j - first] = step;
+    }
+  }
+
+  // Walk back from the last cell to collect the pairs
+  const pairs: IndexPair[] = [];
+  let i = rows;
+  let j = columns;
+  while (i > 0 && j > 0) {
+    const row = bandRows[i - 1];
+    if (row.last < row.first || j < row.first) {
+      i--;
+      continue;
+    }
+    if (j > row.last) {
+      j = row.last;
+      continue;
+    }
+
+    const step = row.steps[j - row.first];
+    if (step === 3) {
+      pairs.push([truthStart + i - 1, predStart + j - 1]);
+      i--;
+      j--;
+    } else if (step === 1) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  return pairs.reverse();
 }
 
 /**
@@ -37,13 +315,15 @@ export interface EvaluationMetrics {
  * @param predictions - Array of prediction selections (LSTM predictions)
  * @param toleranceMs - Tolerance for matching in milliseconds (default: 0.5ms)
  * @param audioId - Audio ID to filter selections for
+ * @param matching - How predictions are paired with ground truth (default: greedy)
  * @returns EvaluationMetrics object
  */
 export function calculateEvaluationMetrics(
   groundTruth: Selection[],
   predictions: Selection[],
   toleranceMs: number = 0.5,
-  audioId?: string
+  audioId?: string,
+  matching: MatchingStrategy = 'greedy'
 ): EvaluationMetrics {
   // Filter selections by audio ID if specified
   const filteredGroundTruth = audioId
@@ -56,40 +336,36 @@ export function calculateEvaluationMetrics(
 
   const toleranceSeconds = toleranceMs / 1000; // Convert ms to seconds
 
-  // Extract timestamps for easier comparison
-  const truthTimestamps = filteredGroundTruth.map(sel => sel.beginTime).sort((a, b) => a - b);
-  const predictionTimestamps = filteredPredictions.map(sel => sel.beginTime).sort((a, b) => a - b);
+  // Sort by time for matching
+  const sortedTruth = [...filteredGroundTruth].sort((a, b) => a.beginTime - b.beginTime);
+  const sortedPredictions = [...filteredPredictions].sort((a, b) => a.beginTime - b.beginTime);
+  const truthTimestamps = sortedTruth.map(sel => sel.beginTime);
+  const predictionTimestamps = sortedPredictions.map(sel => sel.beginTime);
 
-  let truePositives = 0;
-  let falsePositives = 0;
-  const matchedTruthIndices = new Set<number>();
+  const pairs = matching === 'optimal'
+    ? matchOptimal(truthTimestamps, predictionTimestamps, toleranceSeconds)
+    : matchGreedy(truthTimestamps, predictionTimestamps, toleranceSeconds);
 
-  // For each prediction, check if it matches any ground truth within tolerance
-  for (const predTime of predictionTimestamps) {
-    let isMatched = false;
-
-    for (let i = 0; i < truthTimestamps.length; i++) {
-      const truthTime = truthTimestamps[i];
-
-      // Check if prediction is within tolerance of this ground truth
-      if (Math.abs(predTime - truthTime) <= toleranceSeconds) {
-        // Only count as TP if this ground truth hasn't been matched yet
-        if (!matchedTruthIndices.has(i)) {
-          truePositives++;
-          matchedTruthIndices.add(i);
-          isMatched = true;
-          break;
-        }
-      }
-    }
+  const matches: ClickMatch[] = pairs
+    .map(([truthIndex, predIndex]) => ({
+      groundTruth: sortedTruth[truthIndex],
+      prediction: sortedPredictions[predIndex],
+      offset: predictionTimestamps[predIndex] - truthTimestamps[truthIndex]
+    }))
+    .sort((a, b) => a.groundTruth.beginTime - b.groundTruth.beginTime);
 
-    if (!isMatched) {
-      falsePositives++;
-    }
-  }
+  const matchedTruthIndices = new Set(pairs.map(([truthIndex]) => truthIndex));
+  const matchedPredictionIndices = new Set(pairs.map(([, predIndex]) => predIndex));
+  const unmatchedGroundTruth = sortedTruth.filter((_, index) => !matchedTruthIndices.has(index));
+  const unmatchedPredictions = sortedPredictions.filter(
+    (_, index) => !matchedPredictionIndices.has(index)
+  );
 
+  const truePositives = matches.length;
+  // False positives are predictions that weren't matched to any ground truth
+  const falsePositives = unmatchedPredictions.length;
   // False negatives are ground truth clicks that weren't matched by any prediction
-  const falseNegatives = truthTimestamps.length - matchedTruthIndices.size;
+  const falseNegatives = unmatchedGroundTruth.length;
 
   // True negatives are not meaningful in click detection (infinite non-click regions)
   const trueNegatives = 0;
@@ -117,10 +393,52 @@ export function calculateEvaluationMetrics(
     f1Score,
     tolerance: toleranceMs,
     totalGroundTruth: filteredGroundTruth.length,
-    totalPredictions: filteredPredictions.length
+    totalPredictions: filteredPredictions.length,
+    matching,
+    matches,
+    unmatchedGroundTruth,
+    unmatchedPredictions
   };
 }
 
+/**
+ * Get the match outcome of every evaluated click
+ *
+ * @param metrics - Evaluation results with matched pairs and unmatched clicks
+ * @returns Outcome by selection (the selection objects passed to the evaluation)
+ */
+export function getMatchOutcomes(metrics: EvaluationMetrics): Map<Selection, MatchOutcome> {
+  const outcomes = new Map<Selection, MatchOutcome>();
+
+  metrics.matches.forEach(match => {
+    outcomes.set(match.groundTruth, 'matched');
+    outcomes.set(match.prediction, 'matched');
+  });
+  metrics.unmatchedPredictions.forEach(sel => outcomes.set(sel, 'false-positive'));
+  metrics.unmatchedGroundTruth.forEach(sel => outcomes.set(sel, 'false-negative'));
+
+  return outcomes;
+}
+
+/**
+ * Get the false positives and false negatives of an evaluation
+ *
+ * @param metrics - Evaluation results with unmatched clicks
+ * @returns Errors in time order
+ */
+export function getEvaluationErrors(metrics: EvaluationMetrics): EvaluationError[] {
+  return [
+    ...metrics.unmatchedPredictions.map(selection => ({
+      outcome: 'false-positive' as const,
+      selection
+    })),
+    ...metrics.unmatchedGroundTruth.map(selection => ({
+      outcome: 'false-negative' as const,
+      selection
+    }))
+  ].sort((a, b) => a.selection.beginTime - b.selection.beginTime);
+}
+
 /**
  * Format evaluation metrics for display
  */
@@ -131,5 +449,5 @@ export function formatEvaluationMetrics(metrics: EvaluationMetrics): string {
 
   return `F1: ${f1}% | Precision: ${precision}% | Recall: ${recall}% | ` +
     `TP: ${metrics.truePositives} | FP: ${metrics.falsePositives} | FN: ${metrics.falseNegatives} | ` +
-    `Tolerance: ${metrics.tolerance}ms`;
+    `Tolerance: ${metrics.tolerance}ms (${metrics.matching} matching)`;
 }
\ No newline at end of file
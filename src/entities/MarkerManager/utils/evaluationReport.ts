@@ -0,0 +1,245 @@
+/**
+ * Evaluation reports with the settings needed to reproduce them, for export to JSON and CSV
+ */
+
+import { SelectionGroup } from '../model/types';
+import { PredictionConfig } from '../api/predictionApi';
+import { ChunkingConfig } from '@/shared/stores/wavesurfer/audioChunking';
+import { MatchingStrategy } from './evaluationMetrics';
+import {
+  AveragedMetrics,
+  FileEvaluation,
+  calculateMacroAverage,
+  calculateMicroAverage,
+} from './datasetEvaluation';
+
+/**
+ * Part of the data covered by a report
+ */
+export type EvaluationReportScope = 'file' | 'region' | 'dataset';
+
+/**
+ * Compared group, without its selections
+ */
+export interface EvaluationReportGroup {
+  id: string;
+  name: string;
+  description: string;
+  annotatorId?: string;
+}
+
+/**
+ * Backend and chunking of a real-time prediction run
+ */
+export interface PredictionRunSettings {
+  api: PredictionConfig;
+  chunking: ChunkingConfig;
+}
+
+/**
+ * Settings and inputs a report was created with
+ */
+export interface EvaluationReportProvenance {
+  /** Creation time (ISO 8601) */
+  createdAt: string;
+  scope: EvaluationReportScope;
+  reference: EvaluationReportGroup;
+  candidate: EvaluationReportGroup;
+  toleranceMs: number;
+  matching: MatchingStrategy;
+  /** Candidate clicks scored below this confidence were left out */
+  confidenceThreshold?: number;
+  /** Bounds of the evaluated region (seconds), for the region scope */
+  region?: { start: number; end: number };
+  /** Backend and chunking of the run that produced the candidate, for real-time predictions */
+  prediction?: PredictionRunSettings;
+}
+
+export interface EvaluationReport {
+  provenance: EvaluationReportProvenance;
+  /** Full metrics of each audio file, including matched pairs and unmatched clicks */
+  files: FileEvaluation[];
+  /** Averages over the files, for the dataset scope */
+  micro?: AveragedMetrics;
+  macro?: AveragedMetrics;
+}
+
+/**
+ * Options of a report besides its results
+ */
+export interface EvaluationReportOptions {
+  scope: EvaluationReportScope;
+  reference: SelectionGroup;
+  candidate: SelectionGroup;
+  toleranceMs: number;
+  matching: MatchingStrategy;
+  confidenceThreshold?: number;
+  region?: { start: number; end: number };
+  /** Settings of the real-time prediction run, when the candidate holds its predictions */
+  prediction?: PredictionRunSettings;
+}
+
+const describeGroup = (group: SelectionGroup): EvaluationReportGroup => ({
+  id: group.id,
+  name: group.name,
+  description: group.description,
+  ...(group.annotatorId ? { annotatorId: group.annotatorId } : {}),
+});
+
+/**
+ * Create a report of evaluation results
+ *
+ * @param options - Compared groups and evaluation settings
+ * @param files - Metrics of each evaluated audio file
+ * @returns Report with provenance; dataset reports include micro and macro averages
+ */
+export function createEvaluationReport(
+  options: EvaluationReportOptions,
+  files: FileEvaluation[]
+): EvaluationReport {
+  const provenance: EvaluationReportProvenance = {
+    createdAt: new Date().toISOString(),
+    scope: options.scope,
+    reference: describeGroup(options.reference),
+    candidate: describeGroup(options.candidate),
+    toleranceMs: options.toleranceMs,
+    matching: options.matching,
+    ...(options.confidenceThreshold !== undefined
+      ? { confidenceThreshold: options.confidenceThreshold }
+      : {}),
+    ...(options.region ? { region: options.region } : {}),
+    ...(options.prediction ? { prediction: options.prediction } : {}),
+  };
+
+  return options.scope === 'dataset'
+    ? {
+        provenance,
+        files,
+        micro: calculateMicroAverage(files),
+        macro: calculateMacroAverage(files),
+      }
+    : { provenance, files };
+}
+
+/**
+ * Serializes a report into JSON
+ */
+export function serializeEvaluationReportJson(report: EvaluationReport): string {
+  return JSON.stringify(report, null, 2) + '\n';
+}
+
+/**
+ * Quote a CSV field if needed
+ */
+const toCsvField = (value: string): string =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Serializes a report into CSV with one row per evaluated click
+ *
+ * The provenance and the metrics of each file are written first as comment lines starting with
+ * '#'. Columns: audio_id, outcome (matched, false_positive or false_negative), reference_id,
+ * reference_time, candidate_id, candidate_time, offset_ms
+ *
+ * @param report - Report to serialize
+ * @returns CSV content
+ */
+export function serializeEvaluationReportCsv(report: EvaluationReport): string {
+  const { provenance } = report;
+  const comments = [
+    `created_at: ${provenance.createdAt}`,
+    `scope: ${provenance.scope}`,
+    `reference: ${provenance.reference.id} (${provenance.reference.name})`,
+    `candidate: ${provenance.candidate.id} (${provenance.candidate.name})`,
+    `tolerance_ms: ${provenance.toleranceMs}`,
+    `matching: ${provenance.matching}`,
+    ...(provenance.confidenceThreshold !== undefined
+      ? [`confidence_threshold: ${provenance.confidenceThreshold}`]
+      : []),
+    ...(provenance.region
+      ? [`region: ${provenance.region.start.toFixed(6)}-${provenance.region.end.toFixed(6)}`]
+      : []),
+    ...(provenance.prediction
+      ? [
+          `prediction_api: ${JSON.stringify(provenance.prediction.api)}`,
+          `prediction_chunking: ${JSON.stringify(provenance.prediction.chunking)}`,
+        ]
+      : []),
+    ...report.files.map(
+      ({ audioId, metrics }) =>
+        `file ${audioId}: TP ${metrics.truePositives}, FP ${metrics.falsePositives}, ` +
+        `FN ${metrics.falseNegatives}, precision ${metrics.precision.toFixed(6)}, ` +
+        `recall ${metrics.recall.toFixed(6)}, f1 ${metrics.f1Score.toFixed(6)}`
+    ),
+    ...(['micro', 'macro'] as const).flatMap((key) => {
+      const average = report[key];
+      return average
+        ? [
+            `${key}_average: precision ${average.precision.toFixed(6)}, ` +
+              `recall ${average.recall.toFixed(6)}, f1 ${average.f1Score.toFixed(6)}`,
+          ]
+        : [];
+    }),
+  ].map((line) => `# ${line}`);
+
+  const header = [
+    'audio_id',
+    'outcome',
+    'reference_id',
+    'reference_time',
+    'candidate_id',
+    'candidate_time',
+    'offset_ms',
+  ];
+
+  // Clicks of each file in time order
+  const rows = report.files.flatMap(({ audioId, metrics }) =>
+    [
+      ...metrics.matches.map((match) => ({
+        time: match.groundTruth.beginTime,
+        fields: [
+          audioId,
+          'matched',
+          match.groundTruth.id,
+          match.groundTruth.beginTime.toFixed(6),
+          match.prediction.id,
+          match.prediction.beginTime.toFixed(6),
+          (match.offset * 1000).toFixed(4),
+        ],
+      })),
+      ...metrics.unmatchedPredictions.map((selection) => ({
+        time: selection.beginTime,
+        fields: [
+          audioId,
+          'false_positive',
+          '',
+          '',
+          selection.id,
+          selection.beginTime.toFixed(6),
+          '',
+        ],
+      })),
+      ...metrics.unmatchedGroundTruth.map((selection) => ({
+        time: selection.beginTime,
+        fields: [
+          audioId,
+          'false_negative',
+          selection.id,
+          selection.beginTime.toFixed(6),
+          '',
+          '',
+          '',
+        ],
+      })),
+    ]
+      .sort((a, b) => a.time - b.time)
+      .map((row) => row.fields)
+  );
+
+  const lines = [
+    ...comments,
+    header.join(','),
+    ...rows.map((row) => row.map(toCsvField).join(',')),
+  ];
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,102 @@
+/**
+ * Timing offsets between matched candidate and reference clicks
+ */
+
+import { Selection } from '../model/types';
+
+/**
+ * Summary of signed timing offsets (in seconds, candidate minus reference)
+ */
+export interface OffsetStatistics {
+  count: number;
+  mean: number;
+  median: number;
+  /** Sample standard deviation (zero for a single offset) */
+  standardDeviation: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * One bin of an offset histogram
+ */
+export interface OffsetHistogramBin {
+  /** Lower bound of the bin (seconds, inclusive) */
+  start: number;
+  /** Upper bound of the bin (seconds, exclusive except for the last bin) */
+  end: number;
+  count: number;
+}
+
+/**
+ * Calculate the mean, median and spread of timing offsets
+ *
+ * @param offsets - Signed offsets (seconds)
+ * @returns Statistics, or null without offsets
+ */
+export function calculateOffsetStatistics(offsets: number[]): OffsetStatistics | null {
+  if (offsets.length === 0) return null;
+
+  const sorted = [...offsets].sort((a, b) => a - b);
+  const count = sorted.length;
+  const mean = sorted.reduce((sum, offset) => sum + offset, 0) / count;
+  const middle = Math.floor(count / 2);
+  const median = count % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  const variance =
+    count > 1 ? sorted.reduce((sum, offset) => sum + (offset - mean) ** 2, 0) / (count - 1) : 0;
+
+  return {
+    count,
+    mean,
+    median,
+    standardDeviation: Math.sqrt(variance),
+    min: sorted[0],
+    max: sorted[count - 1],
+  };
+}
+
+/**
+ * Count offsets in equally wide bins over a range symmetric around zero
+ *
+ * @param offsets - Signed offsets (seconds)
+ * @param range - Half width of the histogram (seconds), usually the matching tolerance
+ * @param binCount - Number of bins
+ * @returns Bins in ascending order; offsets outside the range are counted in the outer bins
+ */
+export function createOffsetHistogram(
+  offsets: number[],
+  range: number,
+  binCount: number
+): OffsetHistogramBin[] {
+  if (range <= 0 || binCount < 1) return [];
+
+  const binWidth = (2 * range) / binCount;
+  const bins = Array.from({ length: binCount }, (_, index) => ({
+    start: -range + index * binWidth,
+    end: index === binCount - 1 ? range : -range + (index + 1) * binWidth,
+    count: 0,
+  }));
+
+  offsets.forEach((offset) => {
+    const index = Math.min(binCount - 1, Math.max(0, Math.floor((offset + range) / binWidth)));
+    bins[index].count += 1;
+  });
+
+  return bins;
+}
+
+/**
+ * Shift selections in time, e.g. to remove a systematic lag of a detector
+ *
+ * @param selections - Selections to shift
+ * @param shift - Time added to every selection (seconds)
+ * @returns Shifted copies with new IDs, in the order of the input
+ */
+export function shiftSelections(selections: Selection[], shift: number): Selection[] {
+  return selections.map((selection) => ({
+    ...selection,
+    id: `${selection.id}_shifted`,
+    beginTime: Math.max(0, selection.beginTime + shift),
+    endTime: Math.max(0, selection.endTime + shift),
+  }));
+}
@@ -0,0 +1,82 @@
+/**
+ * Evaluation metrics over a window moving along the audio file
+ */
+
+import { EvaluationMetrics } from './evaluationMetrics';
+
+/**
+ * Metrics of the clicks in one window
+ */
+export interface MetricWindow {
+  /** Window start (seconds) */
+  start: number;
+  /** Window end (seconds) */
+  end: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  /** Null without candidate clicks in the window */
+  precision: number | null;
+  /** Null without reference clicks in the window */
+  recall: number | null;
+  /** Null without any clicks in the window */
+  f1Score: number | null;
+}
+
+/**
+ * Count the matched pairs and errors of an evaluation in windows moving along the file
+ *
+ * The clicks are paired once over the whole file, so that pairs aren't split at window edges.
+ * Matched pairs and false negatives are placed at the reference click, false positives at the
+ * candidate click.
+ *
+ * @param metrics - Evaluation of the whole file
+ * @param duration - Length of the audio file (seconds)
+ * @param windowSize - Length of each window (seconds)
+ * @param hop - Distance between the starts of consecutive windows (seconds)
+ * @returns Windows in time order; the last window ends at the end of the file
+ */
+export function calculateSlidingWindowMetrics(
+  metrics: EvaluationMetrics,
+  duration: number,
+  windowSize: number,
+  hop: number
+): MetricWindow[] {
+  if (duration <= 0 || windowSize <= 0 || hop <= 0) return [];
+
+  const matchTimes = metrics.matches.map((match) => match.groundTruth.beginTime);
+  const falsePositiveTimes = metrics.unmatchedPredictions.map((selection) => selection.beginTime);
+  const falseNegativeTimes = metrics.unmatchedGroundTruth.map((selection) => selection.beginTime);
+
+  const windowCount = Math.max(1, Math.ceil((duration - windowSize) / hop) + 1);
+
+  return Array.from({ length: windowCount }, (_, index) => {
+    const start = Math.max(0, Math.min(index * hop, duration - windowSize));
+    const end = Math.min(duration, start + windowSize);
+    const count = (times: number[]) => times.filter((time) => time >= start && time < end).length;
+
+    const truePositives = count(matchTimes);
+    const falsePositives = count(falsePositiveTimes);
+    const falseNegatives = count(falseNegativeTimes);
+    const precision =
+      truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : null;
+    const recall =
+      truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : null;
+    const hasClicks = truePositives + falsePositives + falseNegatives > 0;
+
+    return {
+      start,
+      end,
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      precision,
+      recall,
+      f1Score: hasClicks
+        ? precision && recall
+          ? (2 * precision * recall) / (precision + recall)
+          : 0
+        : null,
+    };
+  });
+}
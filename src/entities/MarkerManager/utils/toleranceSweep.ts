@@ -0,0 +1,111 @@
+/**
+ * Evaluation metrics as a function of the matching tolerance
+ */
+
+import { Selection } from '../model/types';
+import { MatchingStrategy, calculateEvaluationMetrics } from './evaluationMetrics';
+
+/**
+ * Metrics at one tolerance of a sweep
+ */
+export interface ToleranceSweepPoint {
+  /** Matching tolerance (ms) */
+  toleranceMs: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1Score: number;
+}
+
+/**
+ * Tolerances spaced evenly on a logarithmic scale, so that small tolerances get as much
+ * resolution as large ones
+ *
+ * @param minMs - Smallest tolerance (ms, greater than zero)
+ * @param maxMs - Largest tolerance (ms)
+ * @param count - Number of tolerances (at least two)
+ * @returns Tolerances in ascending order, including both ends
+ */
+export function createToleranceSteps(minMs: number, maxMs: number, count: number): number[] {
+  if (minMs <= 0 || maxMs <= minMs || count < 2) {
+    return minMs > 0 ? [minMs] : [];
+  }
+
+  const ratio = Math.log(maxMs / minMs) / (count - 1);
+  return Array.from({ length: count }, (_, index) =>
+    index === count - 1 ? maxMs : minMs * Math.exp(ratio * index)
+  );
+}
+
+/**
+ * Calculate precision, recall and F1 score of the candidates against the reference at each
+ * tolerance
+ *
+ * @param reference - Reference (ground truth) selections of one audio file
+ * @param candidates - Candidate (prediction) selections of the same file
+ * @param tolerancesMs - Tolerances to evaluate (ms)
+ * @param matching - How candidates are paired with the reference
+ * @returns One point per tolerance, in the order of the tolerances
+ */
+export function calculateToleranceSweep(
+  reference: Selection[],
+  candidates: Selection[],
+  tolerancesMs: number[],
+  matching: MatchingStrategy = 'greedy'
+): ToleranceSweepPoint[] {
+  return tolerancesMs.map((toleranceMs) => {
+    const metrics = calculateEvaluationMetrics(
+      reference,
+      candidates,
+      toleranceMs,
+      undefined,
+      matching
+    );
+
+    return {
+      toleranceMs,
+      truePositives: metrics.truePositives,
+      falsePositives: metrics.falsePositives,
+      falseNegatives: metrics.falseNegatives,
+      precision: metrics.precision,
+      recall: metrics.recall,
+      f1Score: metrics.f1Score,
+    };
+  });
+}
+
+/**
+ * Serializes a tolerance sweep into CSV
+ *
+ * Columns: tolerance_ms, true_positives, false_positives, false_negatives, precision, recall, f1
+ *
+ * @param points - Points of the sweep
+ * @returns CSV content
+ */
+export function serializeToleranceSweep(points: ToleranceSweepPoint[]): string {
+  const header = [
+    'tolerance_ms',
+    'true_positives',
+    'false_positives',
+    'false_negatives',
+    'precision',
+    'recall',
+    'f1',
+  ];
+
+  const lines = points.map((point) =>
+    [
+      point.toleranceMs.toFixed(4),
+      String(point.truePositives),
+      String(point.falsePositives),
+      String(point.falseNegatives),
+      point.precision.toFixed(6),
+      point.recall.toFixed(6),
+      point.f1Score.toFixed(6),
+    ].join(',')
+  );
+
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
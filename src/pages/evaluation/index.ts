@@ -0,0 +1 @@
+export { EvaluationPage } from './ui/EvaluationPage';
@@ -0,0 +1,228 @@
+import React, { useMemo, useState } from 'react';
+import { SelectionGroup } from '@entities/MarkerManager/model';
+import { MatchingStrategy } from '@/entities/MarkerManager/utils/evaluationMetrics';
+import { FileEvaluation, evaluateDataset } from '@/entities/MarkerManager/utils/datasetEvaluation';
+import {
+  BootstrapOptions,
+  BootstrapResampling,
+  ConfidenceInterval,
+  DEFAULT_BOOTSTRAP_OPTIONS,
+  MetricDifference,
+  MetricIntervals,
+  calculateBootstrapIntervals,
+  comparePairedBootstrap,
+} from '@/entities/MarkerManager/utils/bootstrapStatistics';
+import { audioFiles } from '@/shared/config/audioFiles';
+
+interface BootstrapPanelProps {
+  selectionGroups: SelectionGroup[];
+  reference: SelectionGroup;
+  candidate: SelectionGroup;
+  /** Evaluation of the candidate in each file */
+  files: FileEvaluation[];
+  toleranceMs: number;
+  matching: MatchingStrategy;
+}
+
+const METRICS: { key: keyof MetricIntervals; label: string }[] = [
+  { key: 'precision', label: 'Precision' },
+  { key: 'recall', label: 'Recall' },
+  { key: 'f1Score', label: 'F1' },
+];
+
+const formatInterval = ({ estimate, lower, upper }: ConfidenceInterval) =>
+  `${(estimate * 100).toFixed(1)}% [${(lower * 100).toFixed(1)}, ${(upper * 100).toFixed(1)}]`;
+
+const formatDifference = ({ estimate, lower, upper }: MetricDifference) => {
+  const format = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}`;
+  return `${format(estimate)} pp [${format(lower)}, ${format(upper)}]`;
+};
+
+const formatPValue = (pValue: number, iterations: number) =>
+  pValue === 0 ? `< ${(1 / iterations).toPrecision(1)}` : pValue.toFixed(3);
+
+const cellStyle: React.CSSProperties = { padding: '6px 8px', textAlign: 'right' };
+
+/**
+ * Bootstrap confidence intervals of the micro-averaged metrics, optionally with a paired test
+ * of a second candidate against the first
+ */
+export const BootstrapPanel: React.FC<BootstrapPanelProps> = ({
+  selectionGroups,
+  reference,
+  candidate,
+  files,
+  toleranceMs,
+  matching,
+}) => {
+  const [options, setOptions] = useState<BootstrapOptions>(DEFAULT_BOOTSTRAP_OPTIONS);
+  const [compareId, setCompareId] = useState<string>('');
+  // Settings of the last run; resampling is only done on request since it may take a while
+  const [run, setRun] = useState<{ options: BootstrapOptions; compareId: string } | null>(null);
+
+  const compared = selectionGroups.find((group) => group.id === run?.compareId);
+
+  const result = useMemo(() => {
+    if (!run) return null;
+
+    if (!compared) {
+      return { intervals: calculateBootstrapIntervals(files, run.options), comparison: null };
+    }
+
+    const comparedFiles = evaluateDataset(
+      reference.selections,
+      compared.selections,
+      audioFiles.map((audio) => audio.id),
+      toleranceMs,
+      matching
+    ).files;
+    const comparison = comparePairedBootstrap(files, comparedFiles, run.options);
+    return { intervals: comparison?.a ?? null, comparison };
+  }, [run, compared, reference, files, toleranceMs, matching]);
+
+  const intervals = result?.intervals;
+  const comparison = result?.comparison;
+
+  const updateOptions = (update: Partial<BootstrapOptions>) =>
+    setOptions((prev) => ({ ...prev, ...update }));
+
+  const inputStyle: React.CSSProperties = { fontSize: '14px', marginLeft: '6px', width: '70px' };
+
+  return (
+    <div style={{ marginTop: '30px', fontSize: '13px' }}>
+      <h2 style={{ fontSize: '18px' }}>Confidence intervals</h2>
+      <p style={{ color: '#666' }}>
+        Percentile bootstrap intervals of the micro-averaged metrics. Choose a second candidate to
+        test whether its difference from {candidate.name} is significant; both are resampled on the
+        same files or reference clicks.
+      </p>
+
+      <div
+        style={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          gap: '16px',
+          alignItems: 'center',
+          marginBottom: '12px',
+          fontSize: '14px',
+        }}
+      >
+        <label>
+          Resample
+          <select
+            value={options.resampling}
+            onChange={(e) => updateOptions({ resampling: e.target.value as BootstrapResampling })}
+            style={{ ...inputStyle, width: 'auto' }}
+          >
+            <option value='click'>Clicks</option>
+            <option value='file'>Files</option>
+          </select>
+        </label>
+        <label>
+          Samples
+          <input
+            type='number'
+            min={100}
+            step={100}
+            value={options.iterations}
+            onChange={(e) =>
+              updateOptions({ iterations: Math.max(1, Number(e.target.value) || 1) })
+            }
+            style={inputStyle}
+          />
+        </label>
+        <label>
+          Confidence
+          <select
+            value={options.confidenceLevel}
+            onChange={(e) => updateOptions({ confidenceLevel: Number(e.target.value) })}
+            style={{ ...inputStyle, width: 'auto' }}
+          >
+            <option value={0.9}>90%</option>
+            <option value={0.95}>95%</option>
+            <option value={0.99}>99%</option>
+          </select>
+        </label>
+        <label>
+          Seed
+          <input
+            type='number'
+            step={1}
+            value={options.seed}
+            onChange={(e) => updateOptions({ seed: Math.trunc(Number(e.target.value) || 0) })}
+            style={inputStyle}
+          />
+        </label>
+        <label>
+          Compare with
+          <select
+            value={compareId}
+            onChange={(e) => setCompareId(e.target.value)}
+            style={{ ...inputStyle, width: 'auto' }}
+          >
+            <option value=''>None</option>
+            {selectionGroups
+              .filter((group) => group.id !== reference.id && group.id !== candidate.id)
+              .map((group) => (
+                <option key={group.id} value={group.id}>
+                  {group.name}
+                </option>
+              ))}
+          </select>
+        </label>
+        <button
+          onClick={() => setRun({ options, compareId })}
+          style={{ fontSize: '14px', cursor: 'pointer' }}
+        >
+          Calculate
+        </button>
+      </div>
+
+      {run && result && !intervals && <div style={{ color: '#666' }}>No clicks to resample.</div>}
+
+      {run && intervals && (
+        <table style={{ borderCollapse: 'collapse', fontSize: '14px' }}>
+          <thead>
+            <tr style={{ borderBottom: '2px solid #ddd' }}>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>
+                {(run.options.confidenceLevel * 100).toFixed(0)}% interval
+              </th>
+              <th style={cellStyle}>{candidate.name}</th>
+              {comparison && (
+                <>
+                  <th style={cellStyle}>{compared?.name}</th>
+                  <th style={cellStyle}>Difference</th>
+                  <th style={cellStyle}>p-value</th>
+                </>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {METRICS.map(({ key, label }) => {
+              const difference = comparison?.difference[key];
+              // Significant at the level matching the interval coverage
+              const isSignificant =
+                difference !== undefined && difference.pValue < 1 - run.options.confidenceLevel;
+
+              return (
+                <tr key={key} style={{ borderTop: '1px solid #eee' }}>
+                  <td style={{ ...cellStyle, textAlign: 'left' }}>{label}</td>
+                  <td style={cellStyle}>{formatInterval(intervals[key])}</td>
+                  {comparison && difference && (
+                    <>
+                      <td style={cellStyle}>{formatInterval(comparison.b[key])}</td>
+                      <td style={cellStyle}>{formatDifference(difference)}</td>
+                      <td style={{ ...cellStyle, fontWeight: isSignificant ? 'bold' : 'normal' }}>
+                        {formatPValue(difference.pValue, run.options.iterations)}
+                      </td>
+                    </>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,373 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { OffsetHistogram, fetchMultipleSelections } from '@entities/MarkerManager';
+import { SelectionGroup } from '@entities/MarkerManager/model';
+import {
+  DEFAULT_TOLERANCE_MS,
+  MatchingStrategy,
+} from '@/entities/MarkerManager/utils/evaluationMetrics';
+import {
+  AveragedMetrics,
+  FileEvaluation,
+  evaluateDataset,
+} from '@/entities/MarkerManager/utils/datasetEvaluation';
+import { calculateOffsetStatistics } from '@/entities/MarkerManager/utils/offsetAnalysis';
+import {
+  createEvaluationReport,
+  serializeEvaluationReportCsv,
+  serializeEvaluationReportJson,
+} from '@/entities/MarkerManager/utils/evaluationReport';
+import { BootstrapPanel } from './BootstrapPanel';
+import { downloadTextFile } from '@/shared/lib/download';
+import { audioFiles, getSelectionFilesFromAlgorithms } from '@/shared/config/audioFiles';
+
+type SortKey =
+  | 'file'
+  | 'totalGroundTruth'
+  | 'totalPredictions'
+  | 'truePositives'
+  | 'falsePositives'
+  | 'falseNegatives'
+  | 'precision'
+  | 'recall'
+  | 'f1Score'
+  | 'meanOffset';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'file', label: 'File' },
+  { key: 'totalGroundTruth', label: 'Reference' },
+  { key: 'totalPredictions', label: 'Candidate' },
+  { key: 'truePositives', label: 'TP' },
+  { key: 'falsePositives', label: 'FP' },
+  { key: 'falseNegatives', label: 'FN' },
+  { key: 'precision', label: 'Precision' },
+  { key: 'recall', label: 'Recall' },
+  { key: 'f1Score', label: 'F1' },
+  { key: 'meanOffset', label: 'Mean offset' },
+];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Mean offset of the matched clicks of a file (seconds), null without matches
+ */
+const getMeanOffset = (file: FileEvaluation) =>
+  calculateOffsetStatistics(file.metrics.matches.map((match) => match.offset))?.mean ?? null;
+
+const formatOffset = (offset: number | null) =>
+  offset === null ? '–' : `${(offset * 1000).toFixed(3)} ms`;
+
+const cellStyle: React.CSSProperties = { padding: '6px 8px', textAlign: 'right' };
+
+/**
+ * Table row with averaged metrics
+ */
+const AverageRow: React.FC<{ label: string; metrics: AveragedMetrics; isMean?: boolean }> = ({
+  label,
+  metrics,
+  isMean,
+}) => {
+  const formatCount = (value: number) => (isMean ? value.toFixed(1) : String(value));
+
+  return (
+    <tr style={{ borderTop: '2px solid #ddd', fontWeight: 'bold', backgroundColor: '#f5f5f5' }}>
+      <td style={{ ...cellStyle, textAlign: 'left' }}>{label}</td>
+      <td style={cellStyle} />
+      <td style={cellStyle} />
+      <td style={cellStyle}>{formatCount(metrics.truePositives)}</td>
+      <td style={cellStyle}>{formatCount(metrics.falsePositives)}</td>
+      <td style={cellStyle}>{formatCount(metrics.falseNegatives)}</td>
+      <td style={cellStyle}>{formatPercent(metrics.precision)}</td>
+      <td style={cellStyle}>{formatPercent(metrics.recall)}</td>
+      <td style={cellStyle}>{formatPercent(metrics.f1Score)}</td>
+      <td style={cellStyle} />
+    </tr>
+  );
+};
+
+/**
+ * Page comparing two detection algorithms over every audio file of the dataset
+ */
+export const EvaluationPage: React.FC = () => {
+  const [selectionGroups, setSelectionGroups] = useState<SelectionGroup[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [referenceId, setReferenceId] = useState<string>('true');
+  const [candidateId, setCandidateId] = useState<string>('lstm');
+  const [toleranceMs, setToleranceMs] = useState<number>(DEFAULT_TOLERANCE_MS);
+  const [matching, setMatching] = useState<MatchingStrategy>('greedy');
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({
+    key: 'file',
+    ascending: true,
+  });
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        setSelectionGroups(await fetchMultipleSelections(getSelectionFilesFromAlgorithms()));
+      } catch (error) {
+        console.error('Error loading selections:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, []);
+
+  const reference = selectionGroups.find((group) => group.id === referenceId);
+  const candidate = selectionGroups.find((group) => group.id === candidateId);
+
+  const evaluation = useMemo(() => {
+    if (!reference || !candidate) return null;
+
+    return evaluateDataset(
+      reference.selections,
+      candidate.selections,
+      audioFiles.map((audio) => audio.id),
+      toleranceMs,
+      matching
+    );
+  }, [reference, candidate, toleranceMs, matching]);
+
+  // Offsets of the matched clicks of all files
+  const offsets = useMemo(
+    () =>
+      evaluation?.files.flatMap((file) => file.metrics.matches.map((match) => match.offset)) ?? [],
+    [evaluation]
+  );
+
+  const sortedFiles = useMemo(() => {
+    if (!evaluation) return [];
+
+    const getValue = (file: FileEvaluation) => {
+      if (sort.key === 'file') return file.audioId;
+      // Files without matches are sorted last
+      if (sort.key === 'meanOffset')
+        return getMeanOffset(file) ?? (sort.ascending ? Infinity : -Infinity);
+      return file.metrics[sort.key];
+    };
+
+    return [...evaluation.files].sort((a, b) => {
+      const valueA = getValue(a);
+      const valueB = getValue(b);
+      const order =
+        typeof valueA === 'string' && typeof valueB === 'string'
+          ? valueA.localeCompare(valueB)
+          : Number(valueA) - Number(valueB);
+      return sort.ascending ? order : -order;
+    });
+  }, [evaluation, sort]);
+
+  const handleSort = (key: SortKey) => {
+    setSort((prev) => ({
+      key,
+      // Metrics are usually compared best first
+      ascending: prev.key === key ? !prev.ascending : key === 'file',
+    }));
+  };
+
+  const handleExport = (format: 'json' | 'csv') => {
+    if (!reference || !candidate || !evaluation) return;
+
+    const report = createEvaluationReport(
+      { scope: 'dataset', reference, candidate, toleranceMs, matching },
+      evaluation.files
+    );
+    const fileName = `evaluation_dataset_${reference.id}_vs_${candidate.id}`;
+
+    if (format === 'json') {
+      downloadTextFile(
+        serializeEvaluationReportJson(report),
+        `${fileName}.json`,
+        'application/json'
+      );
+    } else {
+      downloadTextFile(serializeEvaluationReportCsv(report), `${fileName}.csv`, 'text/csv');
+    }
+  };
+
+  const selectStyle: React.CSSProperties = { fontSize: '14px', marginLeft: '6px' };
+
+  return (
+    <div style={{ padding: '20px', maxWidth: '1000px', margin: '0 auto' }}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: '20px' }}>
+        <Link
+          to='/'
+          style={{
+            color: '#3498db',
+            marginRight: '20px',
+            textDecoration: 'none',
+            display: 'flex',
+            alignItems: 'center',
+          }}
+        >
+          <span style={{ marginRight: '5px' }}>←</span> Back
+        </Link>
+        <h1 style={{ margin: 0 }}>Dataset Evaluation</h1>
+      </div>
+
+      <p style={{ marginBottom: '20px', color: '#666' }}>
+        Compares a candidate detection algorithm against a reference in every audio file.
+      </p>
+
+      <div
+        style={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          gap: '20px',
+          alignItems: 'center',
+          marginBottom: '20px',
+          padding: '10px 12px',
+          backgroundColor: '#f9f9f9',
+          border: '1px solid #ddd',
+          borderRadius: '4px',
+          fontSize: '14px',
+        }}
+      >
+        <label>
+          Reference
+          <select
+            value={referenceId}
+            onChange={(e) => setReferenceId(e.target.value)}
+            style={selectStyle}
+          >
+            {selectionGroups.map((group) => (
+              <option key={group.id} value={group.id}>
+                {group.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Candidate
+          <select
+            value={candidateId}
+            onChange={(e) => setCandidateId(e.target.value)}
+            style={selectStyle}
+          >
+            {selectionGroups.map((group) => (
+              <option key={group.id} value={group.id}>
+                {group.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Tolerance
+          <input
+            type='number'
+            min={0.1}
+            step={0.5}
+            value={toleranceMs}
+            onChange={(e) => setToleranceMs(Math.max(0.1, Number(e.target.value) || 0.1))}
+            style={{ ...selectStyle, width: '60px' }}
+          />{' '}
+          ms
+        </label>
+        <label>
+          Matching
+          <select
+            value={matching}
+            onChange={(e) => setMatching(e.target.value as MatchingStrategy)}
+            style={selectStyle}
+          >
+            <option value='greedy'>Greedy</option>
+            <option value='optimal'>Optimal</option>
+          </select>
+        </label>
+        <span>
+          Export report
+          <button
+            onClick={() => handleExport('json')}
+            disabled={!evaluation}
+            style={{ ...selectStyle, cursor: evaluation ? 'pointer' : 'not-allowed' }}
+          >
+            JSON
+          </button>
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={!evaluation}
+            style={{ ...selectStyle, cursor: evaluation ? 'pointer' : 'not-allowed' }}
+          >
+            CSV
+          </button>
+        </span>
+      </div>
+
+      {loading ? (
+        <div style={{ textAlign: 'center', padding: '30px', color: '#666' }}>
+          Loading selections...
+        </div>
+      ) : !evaluation ? (
+        <div style={{ color: '#666' }}>Choose a reference and a candidate algorithm.</div>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+          <thead>
+            <tr style={{ borderBottom: '2px solid #ddd' }}>
+              {COLUMNS.map((column) => (
+                <th
+                  key={column.key}
+                  onClick={() => handleSort(column.key)}
+                  style={{
+                    ...cellStyle,
+                    textAlign: column.key === 'file' ? 'left' : 'right',
+                    cursor: 'pointer',
+                    userSelect: 'none',
+                    whiteSpace: 'nowrap',
+                  }}
+                  title='Sort by this column'
+                >
+                  {column.label}
+                  {sort.key === column.key ? (sort.ascending ? ' ▲' : ' ▼') : ''}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sortedFiles.map(({ audioId, metrics }) => (
+              <tr key={audioId} style={{ borderTop: '1px solid #eee' }}>
+                <td style={{ ...cellStyle, textAlign: 'left' }}>
+                  <Link to={`/region-selection/${audioId}`} style={{ color: '#3498db' }}>
+                    {audioId}
+                  </Link>
+                </td>
+                <td style={cellStyle}>{metrics.totalGroundTruth}</td>
+                <td style={cellStyle}>{metrics.totalPredictions}</td>
+                <td style={cellStyle}>{metrics.truePositives}</td>
+                <td style={cellStyle}>{metrics.falsePositives}</td>
+                <td style={cellStyle}>{metrics.falseNegatives}</td>
+                <td style={cellStyle}>{formatPercent(metrics.precision)}</td>
+                <td style={cellStyle}>{formatPercent(metrics.recall)}</td>
+                <td style={cellStyle}>{formatPercent(metrics.f1Score)}</td>
+                <td style={cellStyle}>{formatOffset(getMeanOffset({ audioId, metrics }))}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <AverageRow label='Total (micro average)' metrics={evaluation.micro} />
+            <AverageRow label='Mean per file (macro average)' metrics={evaluation.macro} isMean />
+          </tfoot>
+        </table>
+      )}
+
+      {evaluation && (
+        <div style={{ marginTop: '30px', fontSize: '13px' }}>
+          <h2 style={{ fontSize: '18px' }}>Timing offsets of matched clicks</h2>
+          <OffsetHistogram offsets={offsets} toleranceMs={toleranceMs} />
+        </div>
+      )}
+
+      {evaluation && reference && candidate && (
+        <BootstrapPanel
+          selectionGroups={selectionGroups}
+          reference={reference}
+          candidate={candidate}
+          files={evaluation.files}
+          toleranceMs={toleranceMs}
+          matching={matching}
+        />
+      )}
+    </div>
+  );
+};
@@ -89,6 +89,18 @@ export const HomePage: React.FC = () => {
         Select an audio recording below to begin analysis and region selection.
       </p>
 
+      <Link
+        to="/evaluation"
+        style={{
+          display: 'inline-block',
+          marginBottom: '24px',
+          color: '#3498db',
+          textDecoration: 'none'
+        }}
+      >
+        Evaluate all recordings →
+      </Link>
+
       <div>
         {audioFiles.map(audio => (
           <AudioCard
@@ -0,0 +1,90 @@
+/**
+ * Local draft storage
+ *
+ * Persists the editing state of each audio file (annotations, predictions, regions and
+ * visibility) in IndexedDB so that it survives page reloads.
+ */
+
+import { AnnotationDraft } from '../model/types';
+
+const DB_NAME = 'annotation-analysis';
+const DB_VERSION = 1;
+const STORE_NAME = 'drafts';
+
+/**
+ * Open (and create if needed) the drafts database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'audioId' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Failed to open draft database'));
+  });
+}
+
+/**
+ * Run a single request against the drafts store and close the database afterwards
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = createRequest(transaction.objectStore(STORE_NAME));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? new Error('Draft transaction failed'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('Draft transaction aborted'));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Load the saved draft for an audio file
+ *
+ * @param audioId - ID of the audio file
+ * @returns Promise<AnnotationDraft | null> - The draft, or null if none was saved
+ */
+export async function loadDraft(audioId: string): Promise<AnnotationDraft | null> {
+  const draft = await runRequest<AnnotationDraft | undefined>('readonly', (store) =>
+    store.get(audioId)
+  );
+  return draft ?? null;
+}
+
+/**
+ * Save (or overwrite) the draft for an audio file
+ *
+ * @param draft - The draft to save, keyed by its audioId
+ */
+export async function saveDraft(draft: AnnotationDraft): Promise<void> {
+  await runRequest('readwrite', (store) => store.put(draft));
+}
+
+/**
+ * Delete the saved draft for an audio file
+ *
+ * @param audioId - ID of the audio file
+ */
+export async function deleteDraft(audioId: string): Promise<void> {
+  await runRequest('readwrite', (store) => store.delete(audioId));
+}
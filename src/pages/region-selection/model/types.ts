@@ -1,3 +1,10 @@
+import {
+  Coda,
+  SelectionGroup,
+  SelectionVisibility,
+  ReviewDecisions,
+} from '@entities/MarkerManager/model';
+
 /**
  * Defines a selected region in the waveform
  */
@@ -6,4 +13,25 @@ export interface Region {
   start: number;
   end: number;
   color: string;
-} 
\ No newline at end of file
+  label?: string;
+}
+
+/**
+ * Locally saved editing state for a single audio file
+ */
+export interface AnnotationDraft {
+  /** Audio file the draft belongs to (also the storage key) */
+  audioId: string;
+  /** Time the draft was saved (ms since epoch) */
+  savedAt: number;
+  /** Groups that are not loaded from static selection files (predictions, annotations, imports) */
+  selectionGroups: SelectionGroup[];
+  /** Regions drawn on the main waveform */
+  regions: Region[];
+  /** Visibility of each selection group */
+  visibility: SelectionVisibility;
+  /** Decisions of the prediction review (missing in drafts saved before reviews existed) */
+  reviewDecisions?: ReviewDecisions;
+  /** Codas of this file (missing in drafts saved before codas existed) */
+  codas?: Coda[];
+}
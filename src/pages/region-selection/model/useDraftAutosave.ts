@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Coda,
+  SelectionGroup,
+  SelectionVisibility,
+  ReviewDecisions,
+} from '@entities/MarkerManager/model';
+import { detectionAlgorithms } from '@/shared/config/audioFiles';
+import { waveSurferActions } from '@/shared/stores/wavesurfer';
+import { useHistoryStore } from '@/shared/stores/history';
+import { saveDraft } from '../api/draftStorage';
+import { AnnotationDraft } from './types';
+
+/**
+ * Default delay between the last change and the autosave (ms)
+ */
+const DEFAULT_AUTOSAVE_DELAY = 1000;
+
+/**
+ * Whether a group is loaded from a static selection file and therefore never saved in drafts
+ */
+export const isStaticGroup = (groupId: string): boolean =>
+  detectionAlgorithms.some((algorithm) => algorithm.id === groupId);
+
+/**
+ * Merge the groups of a saved draft into freshly loaded groups, replacing groups with the same ID
+ */
+export const mergeDraftGroups = (
+  groups: SelectionGroup[],
+  draft: AnnotationDraft | null
+): SelectionGroup[] => {
+  if (!draft) return groups;
+
+  const draftGroups = draft.selectionGroups.filter((group) => !isStaticGroup(group.id));
+  const merged = groups.map(
+    (group) => draftGroups.find((draftGroup) => draftGroup.id === group.id) ?? group
+  );
+  const added = draftGroups.filter((draftGroup) => !groups.some((group) => group.id === draftGroup.id));
+
+  return [...merged, ...added];
+};
+
+/**
+ * Parts of a draft that are compared to tell whether anything changed since the last save
+ */
+export type DraftContent = Pick<
+  AnnotationDraft,
+  'selectionGroups' | 'regions' | 'visibility' | 'reviewDecisions' | 'codas'
+>;
+
+const serializeDraftContent = (content: DraftContent): string =>
+  JSON.stringify([
+    content.selectionGroups.filter((group) => !isStaticGroup(group.id)),
+    content.regions,
+    content.visibility,
+    content.reviewDecisions,
+    content.codas,
+  ]);
+
+interface UseDraftAutosaveOptions {
+  audioId?: string;
+  selectionGroups: SelectionGroup[];
+  visibility: SelectionVisibility;
+  reviewDecisions: ReviewDecisions;
+  codas: Coda[];
+  /** Autosave only runs once the saved draft has been fully restored */
+  enabled: boolean;
+  /** Delay between the last change and the save (ms) */
+  delay?: number;
+}
+
+/**
+ * Automatically save the editing state of the current audio file to IndexedDB
+ *
+ * Saves are debounced and skipped when nothing changed since the last save. Region edits
+ * are picked up through the undo history, which records every region operation.
+ */
+export const useDraftAutosave = ({
+  audioId,
+  selectionGroups,
+  visibility,
+  reviewDecisions,
+  codas,
+  enabled,
+  delay = DEFAULT_AUTOSAVE_DELAY,
+}: UseDraftAutosaveOptions) => {
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const lastSavedContent = useRef<string | null>(null);
+
+  const historyPast = useHistoryStore((state) => state.past);
+  const historyFuture = useHistoryStore((state) => state.future);
+
+  useEffect(() => {
+    if (!enabled || !audioId) return;
+
+    const timeoutId = setTimeout(async () => {
+      const draft: AnnotationDraft = {
+        audioId,
+        savedAt: Date.now(),
+        selectionGroups: selectionGroups.filter((group) => !isStaticGroup(group.id)),
+        regions: waveSurferActions.getRegionSnapshots(),
+        visibility,
+        reviewDecisions,
+        codas,
+      };
+
+      const content = serializeDraftContent(draft);
+      if (content === lastSavedContent.current) return;
+
+      try {
+        await saveDraft(draft);
+        lastSavedContent.current = content;
+        setLastSavedAt(draft.savedAt);
+        setSaveError(null);
+      } catch (error) {
+        console.error(`Failed to save draft for ${audioId}:`, error);
+        setSaveError(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }, delay);
+
+    return () => {
+      clearTimeout(timeoutId);
+    };
+  }, [
+    enabled,
+    audioId,
+    selectionGroups,
+    visibility,
+    reviewDecisions,
+    codas,
+    historyPast,
+    historyFuture,
+    delay,
+  ]);
+
+  /**
+   * Reset the save status, e.g. after a draft was restored or discarded
+   *
+   * The content just loaded or reset counts as saved, so only a later change saves a draft.
+   */
+  const resetSaveStatus = useCallback((content: DraftContent, savedAt: number | null = null) => {
+    lastSavedContent.current = serializeDraftContent(content);
+    setLastSavedAt(savedAt);
+    setSaveError(null);
+  }, []);
+
+  return {
+    lastSavedAt,
+    saveError,
+    resetSaveStatus,
+  };
+};
@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import { SelectionGroup } from '@entities/MarkerManager/model';
+import {
+  CONSENSUS_GROUP_ID,
+  calculateAnnotatorAgreement,
+  createConsensusSelections,
+  getAnnotatorLabel,
+} from '@/entities/MarkerManager/utils/annotatorAgreement';
+import {
+  DEFAULT_TOLERANCE_MS,
+  MatchingStrategy,
+} from '@/entities/MarkerManager/utils/evaluationMetrics';
+
+interface AnnotatorAgreementPanelProps {
+  selectionGroups: SelectionGroup[];
+  audioId: string;
+  /** How the clicks of two annotators are paired */
+  matching?: MatchingStrategy;
+  onGroupAdd: (group: SelectionGroup) => void;
+}
+
+const formatPercent = (value: number | null) =>
+  value === null ? '–' : `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Panel comparing the clicks of annotator groups and deriving their majority-vote consensus
+ */
+export const AnnotatorAgreementPanel: React.FC<AnnotatorAgreementPanelProps> = ({
+  selectionGroups,
+  audioId,
+  matching,
+  onGroupAdd,
+}) => {
+  const [toleranceMs, setToleranceMs] = useState<number>(DEFAULT_TOLERANCE_MS);
+
+  const annotatorGroups = useMemo(
+    () => selectionGroups.filter((group) => group.annotatorId),
+    [selectionGroups]
+  );
+
+  const agreement = useMemo(
+    () => calculateAnnotatorAgreement(annotatorGroups, audioId, toleranceMs, matching),
+    [annotatorGroups, audioId, toleranceMs, matching]
+  );
+
+  const getLabel = (groupId: string) => {
+    const group = annotatorGroups.find((item) => item.id === groupId);
+    return group ? getAnnotatorLabel(group) : groupId;
+  };
+
+  const handleCreateConsensus = () => {
+    const selections = createConsensusSelections(annotatorGroups, audioId, toleranceMs);
+    const existing = selectionGroups.find((group) => group.id === CONSENSUS_GROUP_ID);
+
+    onGroupAdd({
+      id: CONSENSUS_GROUP_ID,
+      name: 'Annotator consensus',
+      color: '#673AB7', // Deep purple
+      description: `Clicks marked by a majority of ${annotatorGroups
+        .map(getAnnotatorLabel)
+        .join(', ')} (tolerance ${toleranceMs} ms)`,
+      // Keep the consensus of the other files
+      selections: [
+        ...(existing?.selections.filter((selection) => selection.audioId !== audioId) ?? []),
+        ...selections,
+      ],
+    });
+  };
+
+  const canCompare = annotatorGroups.length >= 2;
+
+  return (
+    <div
+      style={{
+        marginBottom: '20px',
+        padding: '10px 12px',
+        backgroundColor: '#f9f9f9',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        fontSize: '12px',
+      }}
+    >
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px' }}>
+        <strong style={{ color: '#455A64' }}>Annotator agreement</strong>
+
+        <label title='Largest time difference of clicks counted as the same event'>
+          Tolerance{' '}
+          <input
+            type='number'
+            min={0.1}
+            step={0.5}
+            value={toleranceMs}
+            onChange={(e) => setToleranceMs(Math.max(0.1, Number(e.target.value) || 0.1))}
+            style={{ width: '60px', fontSize: '12px' }}
+          />{' '}
+          ms
+        </label>
+
+        {canCompare && (
+          <>
+            <span title='Mean F1 score over all pairs of annotators'>
+              Mean pairwise F1: <strong>{formatPercent(agreement.meanPairwiseF1)}</strong>
+            </span>
+            <span title="Fleiss' kappa over click events, each rated click or no click by every annotator">
+              Fleiss' κ:{' '}
+              <strong>
+                {agreement.fleissKappa === null ? '–' : agreement.fleissKappa.toFixed(3)}
+              </strong>{' '}
+              ({agreement.events.length} events)
+            </span>
+            <button
+              onClick={handleCreateConsensus}
+              style={{
+                padding: '4px 10px',
+                background: '#673AB7',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '12px',
+              }}
+              title='Create a group with the clicks marked by a majority of the annotators'
+            >
+              Create consensus
+            </button>
+          </>
+        )}
+      </div>
+
+      {canCompare ? (
+        <table style={{ width: '100%', marginTop: '8px', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ textAlign: 'left', color: '#666' }}>
+              <th>Annotator A</th>
+              <th>Annotator B</th>
+              <th>Both</th>
+              <th>Only A</th>
+              <th>Only B</th>
+              <th>F1</th>
+            </tr>
+          </thead>
+          <tbody>
+            {agreement.pairwise.map((pair) => (
+              <tr key={`${pair.groupIdA}-${pair.groupIdB}`} style={{ borderTop: '1px solid #eee' }}>
+                <td>{getLabel(pair.groupIdA)}</td>
+                <td>{getLabel(pair.groupIdB)}</td>
+                <td>{pair.metrics.truePositives}</td>
+                <td>{pair.metrics.falseNegatives}</td>
+                <td>{pair.metrics.falsePositives}</td>
+                <td>{formatPercent(pair.metrics.f1Score)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div style={{ marginTop: '6px', color: '#999' }}>
+          Import the label files of at least two annotators, each with its annotator name, to
+          compare them.
+        </div>
+      )}
+    </div>
+  );
+};
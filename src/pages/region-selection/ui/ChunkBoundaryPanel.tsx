@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { EvaluationMetrics } from '@/entities/MarkerManager/utils/evaluationMetrics';
+import {
+  BoundaryDistanceBin,
+  ChunkWindow,
+  analyzeChunkBoundaryErrors,
+} from '@/entities/MarkerManager/utils/chunkBoundaryAnalysis';
+
+interface ChunkBoundaryPanelProps {
+  /** Evaluation of the candidate group against the reference group in the current file */
+  metrics: EvaluationMetrics;
+  candidateName: string;
+  /** Chunks of the last real-time prediction run on the current file */
+  chunks: ChunkWindow[];
+  showBoundaries: boolean;
+  onShowBoundariesChange: (show: boolean) => void;
+}
+
+const BIN_WIDTHS = [0.1, 0.25, 0.5];
+
+/**
+ * Share of the clicks in a bin that are false positives or false negatives, null without clicks
+ */
+const getErrorRate = (bin: BoundaryDistanceBin) => {
+  const total = bin.matched + bin.falsePositives + bin.falseNegatives;
+  return total > 0 ? (bin.falsePositives + bin.falseNegatives) / total : null;
+};
+
+const cellStyle: React.CSSProperties = { padding: '2px 8px', textAlign: 'right' };
+
+/**
+ * Panel counting false positives and false negatives by their distance to the nearest boundary
+ * between prediction chunks, to tell whether errors cluster at chunk edges
+ */
+export const ChunkBoundaryPanel: React.FC<ChunkBoundaryPanelProps> = ({
+  metrics,
+  candidateName,
+  chunks,
+  showBoundaries,
+  onShowBoundariesChange,
+}) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [binWidth, setBinWidth] = useState<number>(0.25);
+
+  const bins = useMemo(
+    () => analyzeChunkBoundaryErrors(metrics, chunks, binWidth),
+    [metrics, chunks, binWidth]
+  );
+
+  return (
+    <div
+      style={{
+        marginBottom: '20px',
+        padding: '10px 12px',
+        backgroundColor: '#f9f9f9',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        fontSize: '12px',
+      }}
+    >
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px' }}>
+        <strong style={{ color: '#607D8B' }}>Chunk boundary errors</strong>
+        <button
+          onClick={() => setIsOpen((prev) => !prev)}
+          style={{
+            padding: '2px 8px',
+            border: '1px solid #ccc',
+            borderRadius: '4px',
+            background: 'white',
+            cursor: 'pointer',
+            fontSize: '11px',
+          }}
+        >
+          {isOpen ? 'Hide' : 'Show'}
+        </button>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <input
+            type='checkbox'
+            checked={showBoundaries}
+            onChange={(e) => onShowBoundariesChange(e.target.checked)}
+          />
+          Show chunk boundaries on waveform
+        </label>
+        {isOpen && (
+          <label>
+            Bin width{' '}
+            <select
+              value={binWidth}
+              onChange={(e) => setBinWidth(Number(e.target.value))}
+              style={{ fontSize: '12px' }}
+            >
+              {BIN_WIDTHS.map((width) => (
+                <option key={width} value={width}>
+                  {width} s
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {isOpen &&
+        (bins.length === 0 ? (
+          <div style={{ marginTop: '8px', color: '#666' }}>
+            The last real-time prediction run used a single chunk, so there are no boundaries.
+          </div>
+        ) : (
+          <div style={{ marginTop: '8px' }}>
+            <div style={{ color: '#666', marginBottom: '4px' }}>
+              Clicks of {candidateName} by distance to the nearest boundary between the{' '}
+              {chunks.length} chunks of the last real-time prediction run; matches and misses are
+              placed at the reference click. Clicks in the first and last chunk can be farther away
+              than half a chunk.
+            </div>
+            <table style={{ borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ borderBottom: '1px solid #ddd' }}>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>Distance</th>
+                  <th style={cellStyle}>Matched</th>
+                  <th style={cellStyle}>FP</th>
+                  <th style={cellStyle}>FN</th>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>Error rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {bins.map((bin, index) => {
+                  const errorRate = getErrorRate(bin);
+                  const isLast = index === bins.length - 1;
+
+                  return (
+                    <tr key={bin.start}>
+                      <td style={{ ...cellStyle, textAlign: 'left' }}>
+                        {isLast
+                          ? `≥ ${bin.start.toFixed(2)} s`
+                          : `${bin.start.toFixed(2)}–${bin.end.toFixed(2)} s`}
+                      </td>
+                      <td style={cellStyle}>{bin.matched}</td>
+                      <td style={cellStyle}>{bin.falsePositives}</td>
+                      <td style={cellStyle}>{bin.falseNegatives}</td>
+                      <td style={{ ...cellStyle, textAlign: 'left' }}>
+                        {errorRate === null ? (
+                          '–'
+                        ) : (
+                          <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                            <div
+                              style={{
+                                width: `${errorRate * 100}px`,
+                                height: '8px',
+                                backgroundColor: '#F44336',
+                              }}
+                            />
+                            {(errorRate * 100).toFixed(0)}%
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ))}
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import {
+  SelectionGroup,
+  getSelectionsForAudio,
+  isSelectionForAudio,
+} from '@entities/MarkerManager/model';
+import {
+  DEFAULT_CLICK_REFINEMENT_OPTIONS,
+  RefinementMethod,
+  refineSelections,
+} from '@/entities/MarkerManager/utils/clickRefinement';
+import { getAudioBuffer } from '@/shared/stores/wavesurfer';
+
+interface ClickRefinementPanelProps {
+  selectionGroups: SelectionGroup[];
+  audioId: string;
+  audioElement: HTMLAudioElement | null;
+  /** Bounds of the selected region, to refine only the clicks within it */
+  selectedRange: { start: number; end: number } | null;
+  onGroupAdd: (group: SelectionGroup) => void;
+}
+
+/**
+ * ID of the group holding the refined clicks of a group
+ */
+const getRefinedGroupId = (groupId: string) => `${groupId}-refined`;
+
+/**
+ * Panel for snapping the clicks of a group to the nearest envelope or Teager-Kaiser energy peak
+ */
+export const ClickRefinementPanel: React.FC<ClickRefinementPanelProps> = ({
+  selectionGroups,
+  audioId,
+  audioElement,
+  selectedRange,
+  onGroupAdd,
+}) => {
+  // Refined groups aren't refined again
+  const groupsWithClicks = selectionGroups.filter(
+    (group) =>
+      !selectionGroups.some((item) => getRefinedGroupId(item.id) === group.id) &&
+      getSelectionsForAudio(group.selections, audioId).length > 0
+  );
+  const [groupId, setGroupId] = useState<string>('');
+  const [method, setMethod] = useState<RefinementMethod>(DEFAULT_CLICK_REFINEMENT_OPTIONS.method);
+  const [searchRadiusMs, setSearchRadiusMs] = useState<number>(
+    DEFAULT_CLICK_REFINEMENT_OPTIONS.searchRadius * 1000
+  );
+  const [useRegion, setUseRegion] = useState<boolean>(false);
+  const [isRefining, setIsRefining] = useState<boolean>(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const group = groupsWithClicks.find((item) => item.id === groupId) ?? groupsWithClicks[0];
+  const range = useRegion ? selectedRange : null;
+  const isInRange = (time: number) => !range || (time >= range.start && time <= range.end);
+
+  const handleRefine = async () => {
+    if (!group || !audioElement) return;
+
+    setIsRefining(true);
+    setMessage(null);
+
+    try {
+      const audioBuffer = await getAudioBuffer(audioElement);
+      const clicks = getSelectionsForAudio(group.selections, audioId).filter((selection) =>
+        isInRange(selection.beginTime)
+      );
+      const refined = refineSelections(clicks, audioBuffer, {
+        method,
+        searchRadius: searchRadiusMs / 1000,
+      });
+
+      const refinedGroupId = getRefinedGroupId(group.id);
+      const existing = selectionGroups.find((item) => item.id === refinedGroupId);
+      // Keep refined clicks of other files and, for a region, outside the region
+      const kept =
+        existing?.selections.filter(
+          (selection) => !isSelectionForAudio(selection, audioId) || !isInRange(selection.beginTime)
+        ) ?? [];
+
+      onGroupAdd({
+        id: refinedGroupId,
+        name: `${group.name} (refined)`,
+        color: '#8BC34A', // Light green
+        description: `${group.name} snapped to the ${
+          method === 'teager-kaiser' ? 'Teager-Kaiser energy' : 'envelope'
+        } maximum within ±${searchRadiusMs} ms`,
+        selections: [
+          ...kept,
+          ...refined.map((selection) => ({ ...selection, source: refinedGroupId })),
+        ].sort((a, b) => a.beginTime - b.beginTime),
+      });
+
+      // Clicks only snapped to the sample grid don't count as moved
+      const moved = refined.filter(
+        (selection, index) =>
+          Math.abs(selection.beginTime - clicks[index].beginTime) >= 1 / audioBuffer.sampleRate
+      ).length;
+      setMessage({ text: `Refined ${refined.length} clicks (${moved} moved)`, isError: false });
+    } catch (error) {
+      console.error('Failed to refine clicks:', error);
+      setMessage({
+        text: error instanceof Error ? error.message : 'Failed to refine clicks',
+        isError: true,
+      });
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const canRefine = !!group && !!audioElement && searchRadiusMs > 0 && !isRefining;
+
+  return (
+    <div
+      style={{
+        marginBottom: '20px',
+        padding: '8px 12px',
+        backgroundColor: '#f9f9f9',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        fontSize: '12px',
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: '10px',
+      }}
+    >
+      <strong style={{ color: '#455A64' }}>Refine clicks</strong>
+
+      <select
+        value={group?.id ?? ''}
+        onChange={(e) => setGroupId(e.target.value)}
+        style={{ fontSize: '12px' }}
+        disabled={groupsWithClicks.length === 0}
+      >
+        {groupsWithClicks.map((item) => (
+          <option key={item.id} value={item.id}>
+            {item.name}
+          </option>
+        ))}
+      </select>
+
+      <label>
+        Snap to{' '}
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as RefinementMethod)}
+          style={{ fontSize: '12px' }}
+        >
+          <option value='teager-kaiser'>Teager-Kaiser energy peak</option>
+          <option value='envelope'>Envelope peak</option>
+        </select>
+      </label>
+
+      <label title='Largest distance a click is moved in either direction'>
+        within ±
+        <input
+          type='number'
+          min={0.05}
+          step={0.1}
+          value={searchRadiusMs}
+          onChange={(e) => setSearchRadiusMs(Math.max(0.05, Number(e.target.value) || 0.05))}
+          style={{ width: '60px', fontSize: '12px' }}
+        />{' '}
+        ms
+      </label>
+
+      <label>
+        <input
+          type='checkbox'
+          checked={useRegion && !!selectedRange}
+          disabled={!selectedRange}
+          onChange={(e) => setUseRegion(e.target.checked)}
+        />{' '}
+        Selected region only
+      </label>
+
+      <button
+        onClick={handleRefine}
+        disabled={!canRefine}
+        style={{
+          padding: '4px 10px',
+          background: canRefine ? '#8BC34A' : '#cfd8dc',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: canRefine ? 'pointer' : 'not-allowed',
+          fontSize: '12px',
+        }}
+        title='Add a group with the refined clicks, keeping the original group for comparison'
+      >
+        {isRefining ? 'Refining…' : 'Refine'}
+      </button>
+
+      {message && (
+        <span style={{ color: message.isError ? '#d32f2f' : '#2e7d32' }}>{message.text}</span>
+      )}
+    </div>
+  );
+};
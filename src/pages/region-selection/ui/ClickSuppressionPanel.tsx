@@ -0,0 +1,240 @@
+import React, { useMemo, useState } from 'react';
+import {
+  SelectionGroup,
+  getSelectionsForAudio,
+  isSelectionForAudio,
+} from '@entities/MarkerManager/model';
+import {
+  DEFAULT_CLICK_SUPPRESSION_OPTIONS,
+  SuppressionKeep,
+  suppressDuplicateClicks,
+} from '@/entities/MarkerManager/utils/clickSuppression';
+import { waveSurferActions } from '@/shared/stores/wavesurfer';
+
+interface ClickSuppressionPanelProps {
+  selectionGroups: SelectionGroup[];
+  audioId: string;
+  onGroupAdd: (group: SelectionGroup) => void;
+}
+
+/**
+ * Length of the region focused around a removed click (seconds)
+ */
+const FOCUS_WINDOW = 0.05;
+
+/**
+ * ID of the group holding the deduplicated clicks of a group
+ */
+const getDeduplicatedGroupId = (groupId: string) => `${groupId}-deduplicated`;
+
+const formatMs = (seconds: number) => `${(seconds * 1000).toFixed(1)} ms`;
+
+/**
+ * Panel for removing near-duplicate clicks of a group, with a preview of the removed clicks
+ */
+export const ClickSuppressionPanel: React.FC<ClickSuppressionPanelProps> = ({
+  selectionGroups,
+  audioId,
+  onGroupAdd,
+}) => {
+  // Deduplicated groups aren't deduplicated again
+  const groupsWithClicks = selectionGroups.filter(
+    (group) =>
+      !selectionGroups.some((item) => getDeduplicatedGroupId(item.id) === group.id) &&
+      getSelectionsForAudio(group.selections, audioId).length > 0
+  );
+  const [groupId, setGroupId] = useState<string>('');
+  const [windowMs, setWindowMs] = useState<number>(
+    DEFAULT_CLICK_SUPPRESSION_OPTIONS.refractoryWindow * 1000
+  );
+  const [keep, setKeep] = useState<SuppressionKeep>(DEFAULT_CLICK_SUPPRESSION_OPTIONS.keep);
+  const [allFiles, setAllFiles] = useState<boolean>(false);
+  const [showPreview, setShowPreview] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const group = groupsWithClicks.find((item) => item.id === groupId) ?? groupsWithClicks[0];
+
+  const result = useMemo(() => {
+    if (!group) return null;
+
+    const clicks = allFiles ? group.selections : getSelectionsForAudio(group.selections, audioId);
+    return suppressDuplicateClicks(clicks, { refractoryWindow: windowMs / 1000, keep });
+  }, [group, audioId, allFiles, windowMs, keep]);
+
+  // Removed clicks of the current file, which can be shown on the waveform
+  const fileRemoved = useMemo(
+    () => result?.removed.filter(({ selection }) => isSelectionForAudio(selection, audioId)) ?? [],
+    [result, audioId]
+  );
+
+  const handleApply = () => {
+    if (!group || !result) return;
+
+    const deduplicatedGroupId = getDeduplicatedGroupId(group.id);
+    const existing = selectionGroups.find((item) => item.id === deduplicatedGroupId);
+    // Keep deduplicated clicks of other files
+    const otherFiles = allFiles
+      ? []
+      : (existing?.selections ?? []).filter(
+          (selection) => !isSelectionForAudio(selection, audioId)
+        );
+
+    onGroupAdd({
+      id: deduplicatedGroupId,
+      name: `${group.name} (deduplicated)`,
+      color: '#009688', // Teal
+      description: `${group.name} without clicks closer than ${windowMs} ms to a${
+        keep === 'confidence' ? ' more confident' : 'n earlier'
+      } click`,
+      selections: [
+        ...otherFiles,
+        ...result.kept.map((selection) => ({ ...selection, source: deduplicatedGroupId })),
+      ].sort((a, b) => a.beginTime - b.beginTime),
+    });
+
+    setMessage(
+      `Removed ${result.removed.length} of ${result.kept.length + result.removed.length} clicks`
+    );
+  };
+
+  const canApply = !!result && result.removed.length > 0;
+
+  return (
+    <div
+      style={{
+        marginBottom: '20px',
+        padding: '8px 12px',
+        backgroundColor: '#f9f9f9',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        fontSize: '12px',
+      }}
+    >
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px' }}>
+        <strong style={{ color: '#455A64' }}>Suppress duplicates</strong>
+
+        <select
+          value={group?.id ?? ''}
+          onChange={(e) => setGroupId(e.target.value)}
+          style={{ fontSize: '12px' }}
+          disabled={groupsWithClicks.length === 0}
+        >
+          {groupsWithClicks.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.name}
+            </option>
+          ))}
+        </select>
+
+        <label title='Clicks closer than this to a kept click are removed'>
+          within{' '}
+          <input
+            type='number'
+            min={0.1}
+            step={0.5}
+            value={windowMs}
+            onChange={(e) => setWindowMs(Math.max(0.1, Number(e.target.value) || 0.1))}
+            style={{ width: '50px', fontSize: '12px' }}
+          />{' '}
+          ms
+        </label>
+
+        <label>
+          keeping the{' '}
+          <select
+            value={keep}
+            onChange={(e) => setKeep(e.target.value as SuppressionKeep)}
+            style={{ fontSize: '12px' }}
+          >
+            <option value='confidence'>most confident</option>
+            <option value='earliest'>earliest</option>
+          </select>{' '}
+          click
+        </label>
+
+        <label>
+          <input
+            type='checkbox'
+            checked={allFiles}
+            onChange={(e) => setAllFiles(e.target.checked)}
+          />{' '}
+          All files
+        </label>
+
+        {result && (
+          <button
+            onClick={() => setShowPreview((prev) => !prev)}
+            style={{
+              padding: '2px 8px',
+              border: '1px solid #ccc',
+              borderRadius: '4px',
+              background: 'white',
+              cursor: 'pointer',
+              fontSize: '11px',
+            }}
+            title='List the clicks that would be removed'
+          >
+            {result.removed.length} to remove {showPreview ? '▲' : '▼'}
+          </button>
+        )}
+
+        <button
+          onClick={handleApply}
+          disabled={!canApply}
+          style={{
+            padding: '4px 10px',
+            background: canApply ? '#009688' : '#cfd8dc',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: canApply ? 'pointer' : 'not-allowed',
+            fontSize: '12px',
+          }}
+          title='Add a group without the duplicates, keeping the original group for comparison'
+        >
+          Apply
+        </button>
+
+        {message && <span style={{ color: '#2e7d32' }}>{message}</span>}
+      </div>
+
+      {showPreview && result && (
+        <div style={{ marginTop: '8px', maxHeight: '160px', overflowY: 'auto' }}>
+          {allFiles && (
+            <div style={{ color: '#666', marginBottom: '4px' }}>
+              {result.removed.length - fileRemoved.length} of the clicks to remove are in other
+              files.
+            </div>
+          )}
+          {fileRemoved.length === 0 ? (
+            <div style={{ color: '#666' }}>No duplicates in this file.</div>
+          ) : (
+            fileRemoved.map(({ selection, keptBy }) => (
+              <div
+                key={selection.id}
+                onClick={() =>
+                  waveSurferActions.focusRegion(
+                    selection.beginTime - FOCUS_WINDOW / 2,
+                    selection.beginTime + FOCUS_WINDOW / 2
+                  )
+                }
+                style={{ cursor: 'pointer', padding: '1px 0' }}
+                title='Show on the waveform'
+              >
+                {selection.beginTime.toFixed(4)}s
+                {selection.confidence !== undefined && ` (${selection.confidence.toFixed(2)})`}
+                {' → kept '}
+                {keptBy.beginTime.toFixed(4)}s
+                {keptBy.confidence !== undefined && ` (${keptBy.confidence.toFixed(2)})`}
+                <span style={{ color: '#666' }}>
+                  {' '}
+                  {formatMs(Math.abs(selection.beginTime - keptBy.beginTime))} apart
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
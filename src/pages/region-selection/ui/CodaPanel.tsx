@@ -0,0 +1,260 @@
+import React, { useMemo, useState } from 'react';
+import { Coda, SelectionGroup, getSelectionsForAudio } from '@entities/MarkerManager/model';
+import {
+  DEFAULT_CODA_DETECTION_OPTIONS,
+  createCodaFromRange,
+  detectCodas,
+  getCodaStats,
+  serializeCodaTable,
+} from '@/entities/MarkerManager/utils/codaAnalysis';
+import { downloadTextFile } from '@/shared/lib/download';
+import { waveSurferActions } from '@/shared/stores/wavesurfer';
+
+interface CodaPanelProps {
+  selectionGroups: SelectionGroup[];
+  audioId: string;
+  codas: Coda[];
+  /** Bounds of the selected region, used to create a coda manually */
+  selectedRange: { start: number; end: number } | null;
+  onCodasChange: (codas: Coda[], label: string) => void;
+}
+
+const buttonStyle = (background: string, enabled = true): React.CSSProperties => ({
+  padding: '4px 10px',
+  background: enabled ? background : '#cfd8dc',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: enabled ? 'pointer' : 'not-allowed',
+  fontSize: '12px',
+});
+
+/**
+ * Panel for grouping clicks into codas and inspecting their inter-click intervals
+ */
+export const CodaPanel: React.FC<CodaPanelProps> = ({
+  selectionGroups,
+  audioId,
+  codas,
+  selectedRange,
+  onCodasChange,
+}) => {
+  const groupsWithClicks = selectionGroups.filter(
+    (group) => getSelectionsForAudio(group.selections, audioId).length > 0
+  );
+  const [groupId, setGroupId] = useState<string>('');
+  const [maxIciMs, setMaxIciMs] = useState<number>(DEFAULT_CODA_DETECTION_OPTIONS.maxIci * 1000);
+  const [minClicks, setMinClicks] = useState<number>(DEFAULT_CODA_DETECTION_OPTIONS.minClicks);
+
+  const group =
+    groupsWithClicks.find((item) => item.id === groupId) ?? groupsWithClicks[0] ?? undefined;
+
+  const fileCodas = useMemo(
+    () =>
+      codas
+        .filter((coda) => coda.audioId === audioId)
+        .sort((a, b) => a.beginTime - b.beginTime)
+        .map((coda) => ({
+          coda,
+          stats: getCodaStats(
+            coda,
+            selectionGroups.find((item) => item.id === coda.groupId)
+          ),
+        })),
+    [codas, audioId, selectionGroups]
+  );
+
+  const otherCodas = codas.filter((coda) => coda.audioId !== audioId);
+
+  const handleDetect = () => {
+    if (!group) return;
+
+    const detected = detectCodas(group, audioId, { maxIci: maxIciMs / 1000, minClicks });
+    // Detection replaces the codas of this group in this file
+    const kept = codas.filter((coda) => coda.audioId !== audioId || coda.groupId !== group.id);
+    onCodasChange(
+      [...kept, ...detected],
+      `Detect ${detected.length} codas in ${group.name} (ICI ≤ ${maxIciMs} ms)`
+    );
+  };
+
+  const handleCreateFromRegion = () => {
+    if (!group || !selectedRange) return;
+
+    const coda = createCodaFromRange(group, audioId, selectedRange.start, selectedRange.end);
+    if (!coda) return;
+
+    onCodasChange([...codas, coda], `Create coda at ${coda.beginTime.toFixed(3)}s`);
+  };
+
+  const handleRemove = (coda: Coda) => {
+    onCodasChange(
+      codas.filter((item) => item.id !== coda.id),
+      `Remove coda at ${coda.beginTime.toFixed(3)}s`
+    );
+  };
+
+  const handleClear = () => {
+    onCodasChange(otherCodas, `Clear ${fileCodas.length} codas`);
+  };
+
+  const handleExport = () => {
+    downloadTextFile(
+      serializeCodaTable(
+        fileCodas.map(({ coda }) => coda),
+        selectionGroups
+      ),
+      `codas_${audioId}.csv`,
+      'text/csv'
+    );
+  };
+
+  const inputStyle: React.CSSProperties = { width: '60px', fontSize: '12px' };
+
+  return (
+    <div
+      style={{
+        marginBottom: '20px',
+        padding: '10px 12px',
+        backgroundColor: '#f9f9f9',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        fontSize: '12px',
+      }}
+    >
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px' }}>
+        <strong style={{ color: '#455A64' }}>Codas</strong>
+
+        <label>
+          Clicks of{' '}
+          <select
+            value={group?.id ?? ''}
+            onChange={(e) => setGroupId(e.target.value)}
+            style={{ fontSize: '12px' }}
+            disabled={groupsWithClicks.length === 0}
+          >
+            {groupsWithClicks.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label title='Consecutive clicks further apart than this start a new coda'>
+          Max ICI{' '}
+          <input
+            type='number'
+            min={1}
+            step={10}
+            value={maxIciMs}
+            onChange={(e) => setMaxIciMs(Number(e.target.value) || 0)}
+            style={inputStyle}
+          />{' '}
+          ms
+        </label>
+
+        <label>
+          Min clicks{' '}
+          <input
+            type='number'
+            min={1}
+            step={1}
+            value={minClicks}
+            onChange={(e) => setMinClicks(Math.max(1, Math.round(Number(e.target.value) || 1)))}
+            style={inputStyle}
+          />
+        </label>
+
+        <button
+          onClick={handleDetect}
+          disabled={!group || maxIciMs <= 0}
+          style={buttonStyle('#3498db', !!group && maxIciMs > 0)}
+          title='Replace the codas of this group in this file with automatically detected ones'
+        >
+          Detect codas
+        </button>
+        <button
+          onClick={handleCreateFromRegion}
+          disabled={!group || !selectedRange}
+          style={buttonStyle('#3498db', !!group && !!selectedRange)}
+          title='Group the clicks within the selected region into one coda'
+        >
+          Coda from region
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={fileCodas.length === 0}
+          style={buttonStyle('#607D8B', fileCodas.length > 0)}
+        >
+          Export table
+        </button>
+        {fileCodas.length > 0 && (
+          <button onClick={handleClear} style={buttonStyle('#f44336')}>
+            Clear
+          </button>
+        )}
+      </div>
+
+      {fileCodas.length > 0 ? (
+        <div style={{ marginTop: '8px', maxHeight: '200px', overflowY: 'auto' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ textAlign: 'left', color: '#666' }}>
+                <th>#</th>
+                <th>Group</th>
+                <th>Begin (s)</th>
+                <th>Clicks</th>
+                <th>Duration (ms)</th>
+                <th>ICIs (ms)</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {fileCodas.map(({ coda, stats }, index) => (
+                <tr
+                  key={coda.id}
+                  style={{ borderTop: '1px solid #eee', cursor: 'pointer' }}
+                  onClick={() =>
+                    waveSurferActions.focusRegion(coda.beginTime - 0.05, coda.endTime + 0.05)
+                  }
+                  title='Show this coda in the cropped view'
+                >
+                  <td>C{index + 1}</td>
+                  <td>{selectionGroups.find((item) => item.id === coda.groupId)?.name}</td>
+                  <td>{coda.beginTime.toFixed(3)}</td>
+                  <td>{stats.clickCount}</td>
+                  <td>{(stats.duration * 1000).toFixed(1)}</td>
+                  <td style={{ fontFamily: 'monospace' }}>
+                    {stats.icis.map((ici) => (ici * 1000).toFixed(1)).join(', ')}
+                  </td>
+                  <td>
+                    <button
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        handleRemove(coda);
+                      }}
+                      style={{
+                        border: 'none',
+                        background: 'none',
+                        color: '#f44336',
+                        cursor: 'pointer',
+                      }}
+                      title='Remove coda'
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div style={{ marginTop: '6px', color: '#999' }}>
+          No codas in this file. Detect them from an ICI threshold or select a region around a coda.
+        </div>
+      )}
+    </div>
+  );
+};
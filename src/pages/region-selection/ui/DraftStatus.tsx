@@ -0,0 +1,76 @@
+import React from 'react';
+
+interface DraftStatusProps {
+  /** Time of the last successful autosave (ms since epoch) */
+  lastSavedAt: number | null;
+  /** Save time of the draft restored when the page was opened (ms since epoch) */
+  restoredAt: number | null;
+  /** Error of the last failed autosave */
+  error: string | null;
+  onDiscard: () => void;
+}
+
+/**
+ * Shows the autosave state of the local draft and allows discarding it
+ */
+export const DraftStatus: React.FC<DraftStatusProps> = ({
+  lastSavedAt,
+  restoredAt,
+  error,
+  onDiscard,
+}) => {
+  const handleDiscard = () => {
+    if (
+      window.confirm(
+        'Discard the local draft? Annotations, predictions and regions of this file will be lost.'
+      )
+    ) {
+      onDiscard();
+    }
+  };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        marginBottom: '20px',
+        fontSize: '12px',
+        color: '#666',
+      }}
+    >
+      {error ? (
+        <span style={{ color: '#d32f2f' }}>⚠️ Autosave failed: {error}</span>
+      ) : lastSavedAt ? (
+        <span>💾 Last saved {new Date(lastSavedAt).toLocaleTimeString()}</span>
+      ) : (
+        <span>Changes are saved automatically in this browser</span>
+      )}
+
+      {restoredAt && (
+        <span style={{ color: '#1976d2' }}>
+          Restored local draft from {new Date(restoredAt).toLocaleString()}
+        </span>
+      )}
+
+      {(lastSavedAt || restoredAt) && (
+        <button
+          onClick={handleDiscard}
+          style={{
+            padding: '4px 10px',
+            background: 'white',
+            color: '#f44336',
+            border: '1px solid #f44336',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            fontSize: '12px',
+          }}
+          title='Delete the locally saved draft of this file'
+        >
+          Discard local draft
+        </button>
+      )}
+    </div>
+  );
+};
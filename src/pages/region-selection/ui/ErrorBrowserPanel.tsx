@@ -0,0 +1,235 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  EvaluationError,
+  EvaluationMetrics,
+  MATCH_OUTCOMES,
+  MatchOutcome,
+  getEvaluationErrors,
+} from '@/entities/MarkerManager/utils/evaluationMetrics';
+import { useWaveSurferStore, waveSurferActions } from '@/shared/stores/wavesurfer';
+
+interface ErrorBrowserPanelProps {
+  /** Evaluation of the compared groups in the current file */
+  metrics: EvaluationMetrics;
+}
+
+type ErrorFilter = 'all' | Exclude<MatchOutcome, 'matched'>;
+
+/**
+ * Length of the window shown in the cropped view around each error (seconds)
+ */
+const ERROR_WINDOW = 0.2;
+
+const buttonStyle = (enabled = true): React.CSSProperties => ({
+  padding: '2px 8px',
+  border: '1px solid #ccc',
+  borderRadius: '4px',
+  background: 'white',
+  cursor: enabled ? 'pointer' : 'not-allowed',
+  fontSize: '11px',
+});
+
+/**
+ * Panel listing the false positives and false negatives of the evaluation, showing the selected
+ * one in the cropped view
+ */
+export const ErrorBrowserPanel: React.FC<ErrorBrowserPanelProps> = ({ metrics }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [filter, setFilter] = useState<ErrorFilter>('all');
+  const [descending, setDescending] = useState<boolean>(false);
+  const [autoplay, setAutoplay] = useState<boolean>(false);
+  const [current, setCurrent] = useState<EvaluationError | null>(null);
+  // Set when the next extracted region should be played as soon as it is loaded
+  const pendingPlay = useRef<boolean>(false);
+
+  const isRegionReady = useWaveSurferStore(
+    (state) =>
+      state.initializationState.isCroppedReady &&
+      !state.selectedRegion.isExtracting &&
+      !!state.selectedRegion.extractedAudioUrl
+  );
+  const playExtractedRegion = useWaveSurferStore((state) => state.playExtractedRegion);
+
+  const errors = useMemo(() => {
+    const filtered = getEvaluationErrors(metrics).filter(
+      (error) => filter === 'all' || error.outcome === filter
+    );
+    return descending ? filtered.reverse() : filtered;
+  }, [metrics, filter, descending]);
+
+  const currentIndex = current
+    ? errors.findIndex((error) => error.selection === current.selection)
+    : -1;
+
+  const select = useCallback(
+    (error: EvaluationError) => {
+      setCurrent(error);
+      pendingPlay.current = autoplay;
+      waveSurferActions.focusRegion(
+        error.selection.beginTime - ERROR_WINDOW / 2,
+        error.selection.beginTime + ERROR_WINDOW / 2
+      );
+    },
+    [autoplay]
+  );
+
+  const step = useCallback(
+    (direction: 1 | -1) => {
+      if (errors.length === 0) return;
+
+      const nextIndex =
+        currentIndex === -1
+          ? direction === 1
+            ? 0
+            : errors.length - 1
+          : Math.min(Math.max(0, currentIndex + direction), errors.length - 1);
+      select(errors[nextIndex]);
+    },
+    [errors, currentIndex, select]
+  );
+
+  // Play the error once its region is extracted and loaded in the cropped view
+  useEffect(() => {
+    if (pendingPlay.current && isRegionReady) {
+      pendingPlay.current = false;
+      playExtractedRegion();
+    }
+  }, [isRegionReady, playExtractedRegion]);
+
+  // ] next error, [ previous error
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+      if (event.key === ']' || event.key === '[') {
+        event.preventDefault();
+        step(event.key === ']' ? 1 : -1);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, step]);
+
+  const handleToggle = () => {
+    if (isOpen && current) {
+      waveSurferActions.clearFocusRegion();
+      setCurrent(null);
+    }
+    setIsOpen((prev) => !prev);
+  };
+
+  return (
+    <div
+      style={{
+        marginBottom: '20px',
+        padding: '10px 12px',
+        backgroundColor: '#f9f9f9',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        fontSize: '12px',
+      }}
+    >
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px' }}>
+        <strong style={{ color: '#455A64' }}>Error browser</strong>
+        <span style={{ color: '#666' }}>
+          {metrics.falsePositives} false positives, {metrics.falseNegatives} missed
+        </span>
+        <button onClick={handleToggle} style={buttonStyle()}>
+          {isOpen ? 'Hide' : 'Show'}
+        </button>
+
+        {isOpen && (
+          <>
+            <select
+              value={filter}
+              onChange={(e) => setFilter(e.target.value as ErrorFilter)}
+              style={{ fontSize: '12px' }}
+            >
+              <option value='all'>All errors</option>
+              <option value='false-positive'>{MATCH_OUTCOMES['false-positive'].label}s</option>
+              <option value='false-negative'>{MATCH_OUTCOMES['false-negative'].label}</option>
+            </select>
+            <button
+              onClick={() => step(-1)}
+              disabled={errors.length === 0}
+              style={buttonStyle(errors.length > 0)}
+              title='Previous error ([)'
+            >
+              ◀ Prev
+            </button>
+            <button
+              onClick={() => step(1)}
+              disabled={errors.length === 0}
+              style={buttonStyle(errors.length > 0)}
+              title='Next error (])'
+            >
+              Next ▶
+            </button>
+            <label title='Play the region around each error when it is selected'>
+              <input
+                type='checkbox'
+                checked={autoplay}
+                onChange={(e) => setAutoplay(e.target.checked)}
+              />{' '}
+              Autoplay
+            </label>
+          </>
+        )}
+      </div>
+
+      {isOpen &&
+        (errors.length > 0 ? (
+          <div style={{ marginTop: '8px', maxHeight: '200px', overflowY: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ textAlign: 'left', color: '#666' }}>
+                  <th>#</th>
+                  <th
+                    onClick={() => setDescending((prev) => !prev)}
+                    style={{ cursor: 'pointer', userSelect: 'none' }}
+                    title='Sort by time'
+                  >
+                    Time {descending ? '▼' : '▲'}
+                  </th>
+                  <th>Error</th>
+                  <th>Score</th>
+                </tr>
+              </thead>
+              <tbody>
+                {errors.map((error, index) => (
+                  <tr
+                    key={`${error.outcome}-${error.selection.id}`}
+                    onClick={() => select(error)}
+                    style={{
+                      borderTop: '1px solid #eee',
+                      cursor: 'pointer',
+                      backgroundColor: index === currentIndex ? '#E3F2FD' : undefined,
+                    }}
+                  >
+                    <td>{index + 1}</td>
+                    <td style={{ fontFamily: 'monospace' }}>
+                      {error.selection.beginTime.toFixed(5)}s
+                    </td>
+                    <td style={{ color: MATCH_OUTCOMES[error.outcome].color, fontWeight: 'bold' }}>
+                      {MATCH_OUTCOMES[error.outcome].label}
+                    </td>
+                    <td>{error.selection.confidence?.toFixed(2) ?? '–'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div style={{ marginTop: '6px', color: '#999' }}>No errors to show.</div>
+        ))}
+    </div>
+  );
+};
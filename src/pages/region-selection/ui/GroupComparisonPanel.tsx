@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { SelectionGroup } from '@entities/MarkerManager/model';
+import {
+  DEFAULT_TOLERANCE_MS,
+  EvaluationMetrics,
+  MATCH_OUTCOMES,
+  MatchingStrategy,
+} from '@/entities/MarkerManager/utils/evaluationMetrics';
+import {
+  PredictionRunSettings,
+  createEvaluationReport,
+  serializeEvaluationReportCsv,
+  serializeEvaluationReportJson,
+} from '@/entities/MarkerManager/utils/evaluationReport';
+import { downloadTextFile } from '@/shared/lib/download';
+
+interface GroupComparisonPanelProps {
+  selectionGroups: SelectionGroup[];
+  audioId: string;
+  /** Bounds of the selected region, recorded in region reports */
+  selectedRange: { start: number; end: number } | null;
+  /** Confidence threshold applied to the candidate, recorded in reports */
+  confidenceThreshold: number;
+  referenceId: string;
+  candidateId: string;
+  onReferenceChange: (groupId: string) => void;
+  onCandidateChange: (groupId: string) => void;
+  matching: MatchingStrategy;
+  onMatchingChange: (matching: MatchingStrategy) => void;
+  /** Settings of the real-time run that produced the candidate, recorded in reports */
+  predictionRun: PredictionRunSettings | null;
+  /** Metrics over the whole audio file, null while a compared group is missing */
+  fileMetrics: EvaluationMetrics | null;
+  /** Metrics inside the selected region, null without a region */
+  regionMetrics: EvaluationMetrics | null;
+  /** Whether the waveform markers are colored by their match outcome */
+  showEvaluationView: boolean;
+  onShowEvaluationViewChange: (show: boolean) => void;
+}
+
+type ReportFormat = 'json' | 'csv';
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 8px',
+  border: '1px solid #ccc',
+  borderRadius: '4px',
+  background: 'white',
+  cursor: 'pointer',
+  fontSize: '11px',
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const cellStyle: React.CSSProperties = { padding: '2px 6px', textAlign: 'right' };
+
+/**
+ * Table row with the metrics of one scope
+ */
+const MetricsRow: React.FC<{ label: string; metrics: EvaluationMetrics }> = ({
+  label,
+  metrics,
+}) => (
+  <tr style={{ borderTop: '1px solid #eee' }}>
+    <td style={{ ...cellStyle, textAlign: 'left' }}>{label}</td>
+    <td style={cellStyle}>{metrics.totalGroundTruth}</td>
+    <td style={cellStyle}>{metrics.totalPredictions}</td>
+    <td style={cellStyle}>{metrics.truePositives}</td>
+    <td style={cellStyle}>{metrics.falsePositives}</td>
+    <td style={cellStyle}>{metrics.falseNegatives}</td>
+    <td style={cellStyle}>{formatPercent(metrics.precision)}</td>
+    <td style={cellStyle}>{formatPercent(metrics.recall)}</td>
+    <td style={cellStyle}>{formatPercent(metrics.f1Score)}</td>
+  </tr>
+);
+
+/**
+ * Panel choosing the reference and candidate groups of the evaluation and showing their metrics
+ * for the whole file and the selected region
+ */
+export const GroupComparisonPanel: React.FC<GroupComparisonPanelProps> = ({
+  selectionGroups,
+  audioId,
+  selectedRange,
+  confidenceThreshold,
+  referenceId,
+  candidateId,
+  onReferenceChange,
+  onCandidateChange,
+  matching,
+  onMatchingChange,
+  predictionRun,
+  fileMetrics,
+  regionMetrics,
+  showEvaluationView,
+  onShowEvaluationViewChange,
+}) => {
+  const [reportScope, setReportScope] = useState<'file' | 'region'>('file');
+
+  const handleExport = (format: ReportFormat) => {
+    const reference = selectionGroups.find((group) => group.id === referenceId);
+    const candidate = selectionGroups.find((group) => group.id === candidateId);
+    const isRegion = reportScope === 'region' && !!regionMetrics && !!selectedRange;
+    const metrics = isRegion ? regionMetrics : fileMetrics;
+    if (!reference || !candidate || !metrics) return;
+
+    const report = createEvaluationReport(
+      {
+        scope: isRegion ? 'region' : 'file',
+        reference,
+        candidate,
+        toleranceMs: metrics.tolerance,
+        matching: metrics.matching,
+        confidenceThreshold,
+        region: isRegion ? selectedRange : undefined,
+        prediction: predictionRun ?? undefined,
+      },
+      [{ audioId, metrics }]
+    );
+    const regionSuffix = isRegion
+      ? `_${selectedRange.start.toFixed(3)}-${selectedRange.end.toFixed(3)}s`
+      : '';
+    const fileName = `evaluation_${audioId}${regionSuffix}_${reference.id}_vs_${candidate.id}`;
+
+    if (format === 'json') {
+      downloadTextFile(
+        serializeEvaluationReportJson(report),
+        `${fileName}.json`,
+        'application/json'
+      );
+    } else {
+      downloadTextFile(serializeEvaluationReportCsv(report), `${fileName}.csv`, 'text/csv');
+    }
+  };
+
+  const renderGroupSelect = (value: string, onChange: (groupId: string) => void) => (
+    <select
+      value={selectionGroups.some((group) => group.id === value) ? value : ''}
+      onChange={(e) => onChange(e.target.value)}
+      style={{ fontSize: '12px' }}
+    >
+      <option value='' disabled>
+        Choose a group
+      </option>
+      {selectionGroups.map((group) => (
+        <option key={group.id} value={group.id}>
+          {group.name}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div
+      style={{
+        marginBottom: '20px',
+        padding: '10px 12px',
+        backgroundColor: '#E8F5E8',
+        border: '1px solid #C8E6C9',
+        borderRadius: '4px',
+        fontSize: '12px',
+      }}
+    >
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px' }}>
+        <strong style={{ color: '#2E7D32' }}>Evaluation</strong>
+        <label>Reference {renderGroupSelect(referenceId, onReferenceChange)}</label>
+        <label>Candidate {renderGroupSelect(candidateId, onCandidateChange)}</label>
+        <select
+          value={matching}
+          onChange={(e) => onMatchingChange(e.target.value as MatchingStrategy)}
+          style={{ fontSize: '12px' }}
+          title='Greedy matching depends on the order of the candidates; optimal matching pairs as many clicks as possible with the smallest total offset'
+        >
+          <option value='greedy'>Greedy matching</option>
+          <option value='optimal'>Optimal matching</option>
+        </select>
+        <span style={{ color: '#666' }}>Tolerance {DEFAULT_TOLERANCE_MS} ms</span>
+        <label title='Color the markers of both groups by their match outcome and join matched pairs'>
+          <input
+            type='checkbox'
+            checked={showEvaluationView}
+            onChange={(e) => onShowEvaluationViewChange(e.target.checked)}
+          />{' '}
+          Show matches on waveform
+        </label>
+        {showEvaluationView &&
+          Object.values(MATCH_OUTCOMES).map((outcome) => (
+            <span key={outcome.label} style={{ color: outcome.color, fontWeight: 'bold' }}>
+              ● {outcome.label}
+            </span>
+          ))}
+      </div>
+
+      {fileMetrics ? (
+        <>
+          <table style={{ width: '100%', marginTop: '8px', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ color: '#666' }}>
+                <th style={{ ...cellStyle, textAlign: 'left' }} />
+                <th style={cellStyle}>Reference</th>
+                <th style={cellStyle}>Candidate</th>
+                <th style={cellStyle}>TP</th>
+                <th style={cellStyle}>FP</th>
+                <th style={cellStyle}>FN</th>
+                <th style={cellStyle}>Precision</th>
+                <th style={cellStyle}>Recall</th>
+                <th style={cellStyle}>F1</th>
+              </tr>
+            </thead>
+            <tbody>
+              <MetricsRow label='Whole file' metrics={fileMetrics} />
+              {regionMetrics && <MetricsRow label='Selected region' metrics={regionMetrics} />}
+            </tbody>
+          </table>
+
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '8px' }}>
+            <span style={{ color: '#666' }}>Export report of</span>
+            <select
+              value={regionMetrics ? reportScope : 'file'}
+              onChange={(e) => setReportScope(e.target.value as 'file' | 'region')}
+              style={{ fontSize: '12px' }}
+            >
+              <option value='file'>Whole file</option>
+              <option value='region' disabled={!regionMetrics}>
+                Selected region
+              </option>
+            </select>
+            <button onClick={() => handleExport('json')} style={buttonStyle}>
+              JSON
+            </button>
+            <button onClick={() => handleExport('csv')} style={buttonStyle}>
+              CSV
+            </button>
+          </div>
+        </>
+      ) : (
+        <div style={{ marginTop: '6px', color: '#999' }}>
+          Choose a reference and a candidate group to compare.
+        </div>
+      )}
+    </div>
+  );
+};
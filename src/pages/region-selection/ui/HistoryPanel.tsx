@@ -0,0 +1,80 @@
+import React from 'react';
+import { useHistory } from '@/shared/stores/history';
+
+interface HistoryPanelProps {
+  /** Maximum number of recent operations to list */
+  maxItems?: number;
+}
+
+const buttonStyle = (enabled: boolean): React.CSSProperties => ({
+  padding: '4px 10px',
+  background: enabled ? '#607D8B' : '#cfd8dc',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: enabled ? 'pointer' : 'not-allowed',
+  fontSize: '12px',
+});
+
+/**
+ * Panel listing recent annotation and region operations with undo/redo controls
+ */
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ maxItems = 8 }) => {
+  const { past, future, canUndo, canRedo, undo, redo } = useHistory();
+
+  // Most recent operation first; undone operations are listed above it, greyed out
+  const recentPast = past.slice(-maxItems).reverse();
+  const recentFuture = future.slice(0, maxItems).reverse();
+
+  return (
+    <div
+      style={{
+        marginBottom: '20px',
+        padding: '8px 12px',
+        backgroundColor: '#f9f9f9',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        fontSize: '12px',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <strong style={{ color: '#455A64' }}>History</strong>
+        <button
+          onClick={undo}
+          disabled={!canUndo}
+          style={buttonStyle(canUndo)}
+          title='Undo (Ctrl+Z)'
+        >
+          ↶ Undo
+        </button>
+        <button
+          onClick={redo}
+          disabled={!canRedo}
+          style={buttonStyle(canRedo)}
+          title='Redo (Ctrl+Shift+Z)'
+        >
+          ↷ Redo
+        </button>
+        {!canUndo && !canRedo && <span style={{ color: '#999' }}>No edits yet</span>}
+      </div>
+
+      {(recentPast.length > 0 || recentFuture.length > 0) && (
+        <ul style={{ margin: '6px 0 0 0', paddingLeft: '18px', color: '#555' }}>
+          {recentFuture.map((entry) => (
+            <li key={entry.id} style={{ color: '#aaa', textDecoration: 'line-through' }}>
+              {entry.label}
+            </li>
+          ))}
+          {recentPast.map((entry, index) => (
+            <li key={entry.id} style={{ fontWeight: index === 0 ? 'bold' : 'normal' }}>
+              {entry.label}
+              <span style={{ color: '#999', marginLeft: '6px' }}>
+                {new Date(entry.timestamp).toLocaleTimeString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import { EvaluationMetrics } from '@/entities/MarkerManager/utils/evaluationMetrics';
+import {
+  MetricWindow,
+  calculateSlidingWindowMetrics,
+} from '@/entities/MarkerManager/utils/slidingWindowMetrics';
+import { waveSurferActions } from '@/shared/stores/wavesurfer';
+
+interface MetricTimelineProps {
+  /** Evaluation of the compared groups in the whole file */
+  metrics: EvaluationMetrics;
+  /** Length of the audio file (seconds), the width of the main waveform */
+  duration: number;
+}
+
+const CURVES: { key: 'precision' | 'recall' | 'f1Score'; label: string; color: string }[] = [
+  { key: 'precision', label: 'Precision', color: '#2196F3' },
+  { key: 'recall', label: 'Recall', color: '#FF9800' },
+  { key: 'f1Score', label: 'F1', color: '#4CAF50' },
+];
+
+/**
+ * Height of the chart in its own units (its width is the duration of the file)
+ */
+const CHART_HEIGHT = 100;
+
+const formatPercent = (value: number | null) =>
+  value === null ? '–' : `${(value * 100).toFixed(0)}%`;
+
+/**
+ * Tooltip text of a window
+ */
+const getWindowSummary = (item: MetricWindow) =>
+  `${item.start.toFixed(1)}–${item.end.toFixed(1)}s: F1 ${formatPercent(item.f1Score)}, ` +
+  `precision ${formatPercent(item.precision)}, recall ${formatPercent(item.recall)} ` +
+  `(TP ${item.truePositives}, FP ${item.falsePositives}, FN ${item.falseNegatives})`;
+
+/**
+ * Polyline points of a metric at the window centres, split where the metric is undefined
+ */
+const getCurveSegments = (windows: MetricWindow[], key: 'precision' | 'recall' | 'f1Score') => {
+  const segments: string[][] = [];
+  let current: string[] = [];
+
+  windows.forEach((item) => {
+    const value = item[key];
+    if (value === null) {
+      if (current.length > 0) segments.push(current);
+      current = [];
+      return;
+    }
+    current.push(`${(item.start + item.end) / 2},${(1 - value) * CHART_HEIGHT}`);
+  });
+  if (current.length > 0) segments.push(current);
+
+  return segments;
+};
+
+/**
+ * Strip chart of precision, recall and F1 score over a window moving along the file, aligned
+ * with the main waveform; clicking a window creates a region there
+ */
+export const MetricTimeline: React.FC<MetricTimelineProps> = ({ metrics, duration }) => {
+  const [windowSize, setWindowSize] = useState<number>(2);
+  const [hop, setHop] = useState<number>(0.5);
+
+  const windows = useMemo(
+    () => calculateSlidingWindowMetrics(metrics, duration, windowSize, hop),
+    [metrics, duration, windowSize, hop]
+  );
+
+  const inputStyle: React.CSSProperties = { width: '50px', fontSize: '11px' };
+
+  return (
+    <div style={{ borderTop: '1px solid #e0e0e0', backgroundColor: 'white', fontSize: '11px' }}>
+      <div
+        style={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          alignItems: 'center',
+          gap: '10px',
+          padding: '4px 8px',
+          color: '#666',
+        }}
+      >
+        {CURVES.map((curve) => (
+          <span key={curve.key} style={{ color: curve.color, fontWeight: 'bold' }}>
+            ― {curve.label}
+          </span>
+        ))}
+        <label>
+          Window{' '}
+          <input
+            type='number'
+            min={0.1}
+            step={0.5}
+            value={windowSize}
+            onChange={(e) => setWindowSize(Math.max(0.1, Number(e.target.value) || 0.1))}
+            style={inputStyle}
+          />{' '}
+          s
+        </label>
+        <label>
+          Hop{' '}
+          <input
+            type='number'
+            min={0.05}
+            step={0.25}
+            value={hop}
+            onChange={(e) => setHop(Math.max(0.05, Number(e.target.value) || 0.05))}
+            style={inputStyle}
+          />{' '}
+          s
+        </label>
+        <span>Click a window to select it as a region</span>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${duration} ${CHART_HEIGHT}`}
+        preserveAspectRatio='none'
+        style={{ width: '100%', height: '60px', display: 'block' }}
+      >
+        {[0.25, 0.5, 0.75].map((value) => (
+          <line
+            key={value}
+            x1={0}
+            x2={duration}
+            y1={(1 - value) * CHART_HEIGHT}
+            y2={(1 - value) * CHART_HEIGHT}
+            stroke='#eee'
+            vectorEffect='non-scaling-stroke'
+          />
+        ))}
+
+        {CURVES.map((curve) =>
+          getCurveSegments(windows, curve.key).map((segment, index) => (
+            <polyline
+              key={`${curve.key}-${index}`}
+              points={segment.join(' ')}
+              fill='none'
+              stroke={curve.color}
+              strokeWidth='1.5'
+              vectorEffect='non-scaling-stroke'
+            />
+          ))
+        )}
+
+        {/* Click targets, one hop wide around each window centre */}
+        {windows.map((item) => (
+          <rect
+            key={item.start}
+            x={(item.start + item.end) / 2 - hop / 2}
+            y={0}
+            width={hop}
+            height={CHART_HEIGHT}
+            fill='transparent'
+            style={{ cursor: 'pointer' }}
+            onClick={() => waveSurferActions.createRegion(item.start, item.end)}
+          >
+            <title>{getWindowSummary(item)}</title>
+          </rect>
+        ))}
+      </svg>
+    </div>
+  );
+};
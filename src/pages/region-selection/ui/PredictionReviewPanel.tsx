@@ -0,0 +1,252 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Selection,
+  ReviewDecision,
+  ReviewDecisions,
+  getReviewProgress,
+} from '@entities/MarkerManager/model';
+import { waveSurferActions } from '@/shared/stores/wavesurfer';
+
+interface PredictionReviewPanelProps {
+  /** Predictions of the current audio file, sorted by time */
+  predictions: Selection[];
+  decisions: ReviewDecisions;
+  onDecision: (prediction: Selection, decision: ReviewDecision) => void;
+  onClose: () => void;
+}
+
+/**
+ * Length of the window shown in the cropped view around each prediction (seconds)
+ */
+const REVIEW_WINDOW = 0.2;
+
+const DECISION_STYLES: Record<ReviewDecision, { label: string; color: string }> = {
+  accepted: { label: 'Accepted', color: '#2e7d32' },
+  adjusted: { label: 'Adjusted', color: '#1976d2' },
+  rejected: { label: 'Rejected', color: '#d32f2f' },
+};
+
+const buttonStyle = (background: string, enabled = true): React.CSSProperties => ({
+  padding: '6px 12px',
+  background: enabled ? background : '#cfd8dc',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: enabled ? 'pointer' : 'not-allowed',
+  fontSize: '13px',
+});
+
+/**
+ * Panel that steps through predictions one by one, centring the cropped view on each, and
+ * lets the user accept, reject or adjust them into the ground truth candidate group
+ */
+export const PredictionReviewPanel: React.FC<PredictionReviewPanelProps> = ({
+  predictions,
+  decisions,
+  onDecision,
+  onClose,
+}) => {
+  // Start at the first prediction that has not been reviewed yet
+  const [currentIndex, setCurrentIndex] = useState<number>(() =>
+    Math.max(
+      0,
+      predictions.findIndex((prediction) => !decisions[prediction.id])
+    )
+  );
+
+  const index = Math.min(currentIndex, Math.max(0, predictions.length - 1));
+  const current = predictions[index] as Selection | undefined;
+  const progress = useMemo(
+    () => getReviewProgress(predictions, decisions),
+    [predictions, decisions]
+  );
+
+  // Centre the cropped view on the current prediction
+  const currentTime = current?.beginTime;
+  useEffect(() => {
+    if (currentTime !== undefined) {
+      waveSurferActions.focusRegion(
+        currentTime - REVIEW_WINDOW / 2,
+        currentTime + REVIEW_WINDOW / 2
+      );
+    }
+  }, [currentTime]);
+
+  useEffect(() => {
+    return () => {
+      waveSurferActions.clearFocusRegion();
+    };
+  }, []);
+
+  const goTo = (nextIndex: number) => {
+    setCurrentIndex(Math.min(Math.max(0, nextIndex), predictions.length - 1));
+  };
+
+  /**
+   * Move to the next prediction without a decision, or simply the next one if all are reviewed
+   */
+  const goToNextUnreviewed = (skipId?: string) => {
+    const nextIndex = predictions.findIndex(
+      (prediction, i) => i > index && prediction.id !== skipId && !decisions[prediction.id]
+    );
+    goTo(nextIndex === -1 ? index + 1 : nextIndex);
+  };
+
+  const decide = (decision: ReviewDecision) => {
+    if (!current) return;
+
+    onDecision(current, decision);
+
+    // Adjusted candidates stay in view so that their marker can be dragged into place
+    if (decision !== 'adjusted') {
+      goToNextUnreviewed(current.id);
+    }
+  };
+
+  // Y accept, N reject, D adjust, arrow keys to navigate
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+      const actions: Record<string, () => void> = {
+        y: () => decide('accepted'),
+        n: () => decide('rejected'),
+        d: () => decide('adjusted'),
+        ArrowRight: () => goTo(index + 1),
+        ArrowLeft: () => goTo(index - 1),
+      };
+      const action = actions[event.key.length === 1 ? event.key.toLowerCase() : event.key];
+
+      if (action) {
+        event.preventDefault();
+        action();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  });
+
+  const decision = current ? decisions[current.id] : undefined;
+  const percent = progress.total > 0 ? (progress.reviewed / progress.total) * 100 : 0;
+
+  return (
+    <div
+      style={{
+        marginBottom: '20px',
+        padding: '12px 15px',
+        backgroundColor: '#E0F2F1',
+        border: '1px solid #B2DFDB',
+        borderRadius: '4px',
+        fontSize: '13px',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <strong style={{ color: '#00695C' }}>Prediction Review</strong>
+        <button onClick={onClose} style={buttonStyle('#607D8B')}>
+          Finish Review
+        </button>
+      </div>
+
+      <div style={{ marginTop: '8px', color: '#555' }}>
+        Reviewed {progress.reviewed} / {progress.total} ({percent.toFixed(0)}%) —{' '}
+        <span style={{ color: DECISION_STYLES.accepted.color }}>{progress.accepted} accepted</span>,{' '}
+        <span style={{ color: DECISION_STYLES.adjusted.color }}>{progress.adjusted} adjusted</span>,{' '}
+        <span style={{ color: DECISION_STYLES.rejected.color }}>{progress.rejected} rejected</span>
+      </div>
+      <div
+        style={{
+          marginTop: '6px',
+          height: '6px',
+          backgroundColor: '#B2DFDB',
+          borderRadius: '3px',
+          overflow: 'hidden',
+        }}
+      >
+        <div style={{ width: `${percent}%`, height: '100%', backgroundColor: '#009688' }} />
+      </div>
+
+      {current ? (
+        <>
+          <div style={{ marginTop: '10px' }}>
+            Prediction <strong>{index + 1}</strong> of {predictions.length} at{' '}
+            <strong>{current.beginTime.toFixed(5)}s</strong>
+            {decision && (
+              <span
+                style={{
+                  marginLeft: '10px',
+                  color: DECISION_STYLES[decision].color,
+                  fontWeight: 'bold',
+                }}
+              >
+                {DECISION_STYLES[decision].label}
+              </span>
+            )}
+          </div>
+
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginTop: '10px' }}>
+            <button
+              onClick={() => goTo(index - 1)}
+              disabled={index === 0}
+              style={buttonStyle('#78909C', index > 0)}
+              title='Previous prediction (←)'
+            >
+              ◀ Prev
+            </button>
+            <button
+              onClick={() => decide('accepted')}
+              style={buttonStyle('#4caf50')}
+              title='Accept into ground truth candidates (Y)'
+            >
+              ✓ Accept
+            </button>
+            <button
+              onClick={() => decide('rejected')}
+              style={buttonStyle('#f44336')}
+              title='Reject this prediction (N)'
+            >
+              ✗ Reject
+            </button>
+            <button
+              onClick={() => decide('adjusted')}
+              style={buttonStyle('#1976d2')}
+              title='Accept and drag the candidate marker to the exact click position (D)'
+            >
+              ↔ Adjust
+            </button>
+            <button
+              onClick={() => goTo(index + 1)}
+              disabled={index >= predictions.length - 1}
+              style={buttonStyle('#78909C', index < predictions.length - 1)}
+              title='Next prediction (→)'
+            >
+              Next ▶
+            </button>
+            <button
+              onClick={() => goToNextUnreviewed()}
+              disabled={progress.reviewed === progress.total}
+              style={buttonStyle('#009688', progress.reviewed < progress.total)}
+            >
+              Next unreviewed
+            </button>
+          </div>
+
+          {decision === 'adjusted' && (
+            <div style={{ marginTop: '8px', fontSize: '12px', color: '#1976d2' }}>
+              Drag the teal candidate marker in the cropped view to the exact click position.
+            </div>
+          )}
+        </>
+      ) : (
+        <div style={{ marginTop: '10px', color: '#666' }}>
+          No predictions to review. Run a real-time prediction first.
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,62 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { RegionWaveform } from './RegionWaveform';
-import { fetchMultipleSelections } from '@entities/MarkerManager';
-import { SelectionGroup, Selection } from '@/entities/MarkerManager/model/types';
+import { DraftStatus } from './DraftStatus';
+import { fetchMultipleSelections, createAnnotationGroup } from '@entities/MarkerManager';
+import {
+  Coda,
+  SelectionGroup,
+  Selection,
+  SelectionVisibility,
+} from '@/entities/MarkerManager/model/types';
+import {
+  CANDIDATE_GROUP_ID,
+  ReviewDecision,
+  ReviewDecisions,
+  createCandidateGroup,
+  createCandidateSelection,
+  getCandidateId,
+} from '@/entities/MarkerManager/model/predictionReview';
 import { audioFiles, AudioFile, getSelectionFilesFromAlgorithms } from '@/shared/config/audioFiles';
+import { useHistoryStore } from '@/shared/stores/history';
+import { useWaveSurferStore, waveSurferActions } from '@/shared/stores/wavesurfer';
+import { loadDraft, deleteDraft } from '../api/draftStorage';
+import { useDraftAutosave, mergeDraftGroups, isStaticGroup } from '../model/useDraftAutosave';
+import { Region } from '../model/types';
+
+/**
+ * Create the groups that are filled while working on a file (predictions, annotations and
+ * reviewed candidates)
+ */
+const createWorkingGroups = (): SelectionGroup[] => {
+  // Empty predictions group that will be populated in real-time
+  const predictionsGroup: SelectionGroup = {
+    id: 'realtime-lstm',
+    name: 'LSTM Real-time',
+    color: '#FF9800', // Orange
+    description: 'Real-time LSTM-based click detection',
+    selections: []
+  };
+
+  // Empty, editable group for manual annotations
+  const annotationGroup = createAnnotationGroup();
+
+  // Empty, editable group for predictions accepted during review
+  const candidateGroup = createCandidateGroup();
+
+  return [predictionsGroup, annotationGroup, candidateGroup];
+};
+
+/**
+ * Visibility showing every group that has no saved choice
+ */
+const getDefaultVisibility = (
+  groups: SelectionGroup[],
+  visibility: SelectionVisibility = {}
+): SelectionVisibility => ({
+  ...Object.fromEntries(groups.map(group => [group.id, true])),
+  ...visibility,
+});
 
 /**
  * Page component for selecting regions in an audio waveform
@@ -11,14 +64,34 @@ import { audioFiles, AudioFile, getSelectionFilesFromAlgorithms } from '@/shared
 export const RegionSelectionPage: React.FC = () => {
   const { audioId } = useParams<{ audioId: string }>();
   const [selectionGroups, setSelectionGroups] = useState<SelectionGroup[]>([]);
+  const [groupVisibility, setGroupVisibility] = useState<SelectionVisibility>({});
   const [loading, setLoading] = useState<boolean>(true);
   const [audioFile, setAudioFile] = useState<AudioFile | undefined>();
+  // Regions from a restored draft, waiting for the main waveform to be ready
+  const [pendingRegions, setPendingRegions] = useState<Region[] | null>(null);
+  const [restoredAt, setRestoredAt] = useState<number | null>(null);
+  const [reviewDecisions, setReviewDecisions] = useState<ReviewDecisions>({});
+  const [codas, setCodas] = useState<Coda[]>([]);
+  const recordHistory = useHistoryStore((state) => state.record);
+  const isMainReady = useWaveSurferStore((state) => state.initializationState.isMainReady);
+
+  const { lastSavedAt, saveError, resetSaveStatus } = useDraftAutosave({
+    audioId,
+    selectionGroups,
+    visibility: groupVisibility,
+    reviewDecisions,
+    codas,
+    enabled: !loading && pendingRegions === null,
+  });
 
   useEffect(() => {
     const loadData = async () => {
       try {
         setLoading(true);
 
+        // Recorded operations belong to the previously opened file
+        useHistoryStore.getState().clear();
+
         // Find the selected audio file
         const selectedAudio = audioFiles.find(audio => audio.id === audioId);
         setAudioFile(selectedAudio);
@@ -32,17 +105,27 @@ export const RegionSelectionPage: React.FC = () => {
         const selectionFiles = getSelectionFilesFromAlgorithms();
         const groups = await fetchMultipleSelections(selectionFiles);
 
-        // Add empty predictions group that will be populated in real-time
-        const predictionsGroup: SelectionGroup = {
-          id: 'realtime-lstm',
-          name: 'LSTM Real-time',
-          color: '#FF9800', // Orange
-          description: 'Real-time LSTM-based click detection',
-          selections: []
-        };
+        // Restore the local draft of this file, if any
+        const draft = await loadDraft(selectedAudio.id).catch((error) => {
+          console.error('Failed to load local draft:', error);
+          return null;
+        });
 
-        // Set initial selection groups (static + empty predictions)
-        setSelectionGroups([...groups, predictionsGroup]);
+        // Set initial selection groups (static + predictions + annotations, restored from the draft)
+        const initial = {
+          selectionGroups: mergeDraftGroups([...groups, ...createWorkingGroups()], draft),
+          regions: draft?.regions ?? [],
+          reviewDecisions: draft?.reviewDecisions ?? {},
+          codas: draft?.codas ?? [],
+        };
+        const visibility = getDefaultVisibility(initial.selectionGroups, draft?.visibility);
+        setSelectionGroups(initial.selectionGroups);
+        setGroupVisibility(visibility);
+        setReviewDecisions(initial.reviewDecisions);
+        setCodas(initial.codas);
+        setPendingRegions(initial.regions.length > 0 ? initial.regions : null);
+        setRestoredAt(draft?.savedAt ?? null);
+        resetSaveStatus({ ...initial, visibility }, draft?.savedAt ?? null);
       } catch (error) {
         console.error('Error loading data:', error);
       } finally {
@@ -51,7 +134,63 @@ export const RegionSelectionPage: React.FC = () => {
     };
 
     loadData();
-  }, [audioId]);
+  }, [audioId, resetSaveStatus]);
+
+  // Recreate the regions of a restored draft once the main waveform can hold them
+  useEffect(() => {
+    if (pendingRegions && isMainReady) {
+      waveSurferActions.restoreRegions(pendingRegions);
+      setPendingRegions(null);
+    }
+  }, [pendingRegions, isMainReady]);
+
+  // Show new groups by default, keeping the choices made for existing groups
+  useEffect(() => {
+    setGroupVisibility(prevVisibility => {
+      const newGroups = selectionGroups.filter(group => !(group.id in prevVisibility));
+      if (newGroups.length === 0) return prevVisibility;
+
+      const visibility = { ...prevVisibility };
+      newGroups.forEach(group => {
+        visibility[group.id] = true;
+      });
+      return visibility;
+    });
+  }, [selectionGroups]);
+
+  /**
+   * Discard the local draft and reset the file to its freshly loaded state
+   */
+  const handleDiscardDraft = useCallback(async () => {
+    if (!audioId) return;
+
+    try {
+      await deleteDraft(audioId);
+    } catch (error) {
+      console.error('Failed to delete local draft:', error);
+    }
+
+    const groups = [
+      ...selectionGroups.filter(group => isStaticGroup(group.id)),
+      ...createWorkingGroups(),
+    ];
+    const visibility = getDefaultVisibility(groups);
+    setSelectionGroups(groups);
+    setGroupVisibility(visibility);
+    setReviewDecisions({});
+    setCodas([]);
+    setPendingRegions(null);
+    setRestoredAt(null);
+    waveSurferActions.clearAll();
+    useHistoryStore.getState().clear();
+    resetSaveStatus({
+      selectionGroups: groups,
+      regions: [],
+      visibility,
+      reviewDecisions: {},
+      codas: [],
+    });
+  }, [audioId, selectionGroups, resetSaveStatus]);
 
   /**
    * Handle real-time prediction updates
@@ -70,6 +209,216 @@ export const RegionSelectionPage: React.FC = () => {
     });
   }, []);
 
+  /**
+   * Add a selection group, e.g. one imported from a file, replacing a group with the same ID
+   */
+  const addGroup = useCallback((group: SelectionGroup) => {
+    setSelectionGroups(prevGroups => prevGroups.some(item => item.id === group.id)
+      ? prevGroups.map(item => item.id === group.id ? group : item)
+      : [...prevGroups, group]);
+  }, []);
+
+  /**
+   * Remove a selection group that is not loaded from a static selection file
+   */
+  const removeGroup = useCallback((groupId: string) => {
+    setSelectionGroups(prevGroups => prevGroups.filter(group => group.id !== groupId));
+  }, []);
+
+  /**
+   * Handle a group added by the user, recording it in the undo history
+   */
+  const handleGroupAdd = useCallback((group: SelectionGroup) => {
+    const previousGroup = selectionGroups.find(item => item.id === group.id);
+
+    addGroup(group);
+    recordHistory({
+      label: `${previousGroup ? 'Replace' : 'Add'} ${group.name} (${group.selections.length} selections)`,
+      undo: () => previousGroup ? addGroup(previousGroup) : removeGroup(group.id),
+      redo: () => addGroup(group),
+    });
+  }, [selectionGroups, addGroup, removeGroup, recordHistory]);
+
+  /**
+   * Add a selection to an editable group, keeping selections sorted by time
+   */
+  const addSelection = useCallback((groupId: string, selection: Selection) => {
+    setSelectionGroups(prevGroups => {
+      return prevGroups.map(group => {
+        if (group.id === groupId && group.editable) {
+          return {
+            ...group,
+            selections: [...group.selections, selection].sort((a, b) => a.beginTime - b.beginTime)
+          };
+        }
+        return group;
+      });
+    });
+  }, []);
+
+  /**
+   * Remove a selection from an editable group
+   */
+  const removeSelection = useCallback((groupId: string, selectionId: string) => {
+    setSelectionGroups(prevGroups => {
+      return prevGroups.map(group => {
+        if (group.id === groupId && group.editable) {
+          return {
+            ...group,
+            selections: group.selections.filter(selection => selection.id !== selectionId)
+          };
+        }
+        return group;
+      });
+    });
+  }, []);
+
+  /**
+   * Move a selection of an editable group to a new time, keeping its duration
+   */
+  const moveSelection = useCallback(
+    (groupId: string, selectionId: string, beginTime: number) => {
+      setSelectionGroups(prevGroups => {
+        return prevGroups.map(group => {
+          if (group.id === groupId && group.editable) {
+            return {
+              ...group,
+              selections: group.selections
+                .map(selection => selection.id === selectionId
+                  ? {
+                    ...selection,
+                    beginTime,
+                    endTime: beginTime + (selection.endTime - selection.beginTime)
+                  }
+                  : selection)
+                .sort((a, b) => a.beginTime - b.beginTime)
+            };
+          }
+          return group;
+        });
+      });
+    },
+    []
+  );
+
+  /**
+   * Handle a selection added by the user, recording it in the undo history
+   */
+  const handleSelectionAdd = useCallback((groupId: string, selection: Selection) => {
+    addSelection(groupId, selection);
+    recordHistory({
+      label: `Add click at ${selection.beginTime.toFixed(3)}s`,
+      undo: () => removeSelection(groupId, selection.id),
+      redo: () => addSelection(groupId, selection),
+    });
+  }, [addSelection, removeSelection, recordHistory]);
+
+  /**
+   * Handle a selection removed by the user, recording it in the undo history
+   */
+  const handleSelectionRemove = useCallback((groupId: string, selectionId: string) => {
+    const selection = selectionGroups
+      .find(group => group.id === groupId)
+      ?.selections.find(item => item.id === selectionId);
+    if (!selection) return;
+
+    removeSelection(groupId, selectionId);
+    recordHistory({
+      label: `Delete click at ${selection.beginTime.toFixed(3)}s`,
+      undo: () => addSelection(groupId, selection),
+      redo: () => removeSelection(groupId, selectionId),
+    });
+  }, [selectionGroups, addSelection, removeSelection, recordHistory]);
+
+  /**
+   * Handle a finished drag, recording the whole move as one operation in the undo history
+   */
+  const handleSelectionMoveEnd = useCallback(
+    (groupId: string, selectionId: string, fromTime: number, toTime: number) => {
+      recordHistory({
+        label: `Move click ${fromTime.toFixed(3)}s → ${toTime.toFixed(3)}s`,
+        undo: () => moveSelection(groupId, selectionId, fromTime),
+        redo: () => moveSelection(groupId, selectionId, toTime),
+      });
+    },
+    [moveSelection, recordHistory]
+  );
+
+  /**
+   * Set the review decision of a prediction and the candidate created from it
+   */
+  const applyReview = useCallback(
+    (predictionId: string, decision: ReviewDecision | undefined, candidate: Selection | undefined) => {
+      const candidateId = getCandidateId(predictionId);
+
+      setReviewDecisions(prevDecisions => {
+        const decisions = { ...prevDecisions };
+        if (decision) {
+          decisions[predictionId] = decision;
+        } else {
+          delete decisions[predictionId];
+        }
+        return decisions;
+      });
+
+      setSelectionGroups(prevGroups => {
+        return prevGroups.map(group => {
+          if (group.id === CANDIDATE_GROUP_ID) {
+            const selections = group.selections.filter(selection => selection.id !== candidateId);
+            return {
+              ...group,
+              selections: (candidate ? [...selections, candidate] : selections)
+                .sort((a, b) => a.beginTime - b.beginTime)
+            };
+          }
+          return group;
+        });
+      });
+    },
+    []
+  );
+
+  /**
+   * Handle a review decision, recording it in the undo history
+   *
+   * Accepted and adjusted predictions are copied into the candidate group (keeping an earlier,
+   * possibly moved candidate); rejecting removes the candidate again.
+   */
+  const handleReviewDecision = useCallback(
+    (prediction: Selection, decision: ReviewDecision) => {
+      const previousDecision = reviewDecisions[prediction.id];
+      const previousCandidate = selectionGroups
+        .find(group => group.id === CANDIDATE_GROUP_ID)
+        ?.selections.find(selection => selection.id === getCandidateId(prediction.id));
+      const candidate = decision === 'rejected'
+        ? undefined
+        : previousCandidate ?? createCandidateSelection(prediction);
+
+      applyReview(prediction.id, decision, candidate);
+
+      const action = { accepted: 'Accept', adjusted: 'Adjust', rejected: 'Reject' }[decision];
+      recordHistory({
+        label: `${action} prediction at ${prediction.beginTime.toFixed(3)}s`,
+        undo: () => applyReview(prediction.id, previousDecision, previousCandidate),
+        redo: () => applyReview(prediction.id, decision, candidate),
+      });
+    },
+    [reviewDecisions, selectionGroups, applyReview, recordHistory]
+  );
+
+  /**
+   * Handle a change of the codas, recording it in the undo history
+   */
+  const handleCodasChange = useCallback((nextCodas: Coda[], label: string) => {
+    const previousCodas = codas;
+    setCodas(nextCodas);
+    recordHistory({
+      label,
+      undo: () => setCodas(previousCodas),
+      redo: () => setCodas(nextCodas),
+    });
+  }, [codas, recordHistory]);
+
   if (!audioFile && !loading) {
     return (
       <div style={{ padding: "20px", maxWidth: "1000px", margin: "0 auto" }}>
@@ -114,14 +463,34 @@ export const RegionSelectionPage: React.FC = () => {
         </p>
       </div> */}
 
+      {!loading && (
+        <DraftStatus
+          lastSavedAt={lastSavedAt}
+          restoredAt={restoredAt}
+          error={saveError}
+          onDiscard={handleDiscardDraft}
+        />
+      )}
+
       {loading ? (
         <div>Loading selection data...</div>
       ) : (
         <RegionWaveform
           audioUrl={audioFile?.url || ''}
           selectionGroups={selectionGroups}
+          visibility={groupVisibility}
+          onVisibilityChange={setGroupVisibility}
           audioId={audioId || ''}
           onPredictionUpdate={handlePredictionUpdate}
+          onGroupAdd={handleGroupAdd}
+          onSelectionAdd={handleSelectionAdd}
+          onSelectionRemove={handleSelectionRemove}
+          onSelectionMove={moveSelection}
+          onSelectionMoveEnd={handleSelectionMoveEnd}
+          reviewDecisions={reviewDecisions}
+          onReviewDecision={handleReviewDecision}
+          codas={codas}
+          onCodasChange={handleCodasChange}
         />
       )}
     </div>
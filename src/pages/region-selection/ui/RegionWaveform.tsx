@@ -1,32 +1,114 @@
 import React, { useEffect, useRef, useState, useMemo } from 'react';
-import { useWaveSurfer } from '@/shared/stores/wavesurfer';
+import { useWaveSurfer, readWavSampleRate, waveSurferActions } from '@/shared/stores/wavesurfer';
+import { useHistoryHotkeys } from '@/shared/stores/history';
 import {
   MarkerManager,
+  CodaOverlay,
+  ChunkBoundaryOverlay,
   SelectionGroupControls,
+  SelectionExportControls,
+  SelectionImportControls,
   RealtimePredictionManager,
 } from '@entities/MarkerManager';
-import { SelectionGroup, SelectionVisibility, Selection } from '@entities/MarkerManager/model';
 import {
+  SelectionGroup,
+  SelectionVisibility,
+  CategoryVisibility,
+  Coda,
+  Selection,
+  ANNOTATION_GROUP_ID,
+  createAnnotationSelection,
+  getSelectionsForAudio,
+  isSelectionAboveThreshold,
+  ReviewDecision,
+  ReviewDecisions,
+} from '@entities/MarkerManager/model';
+import { clickCategories } from '@/shared/config/clickCategories';
+import { HistoryPanel } from './HistoryPanel';
+import { PredictionReviewPanel } from './PredictionReviewPanel';
+import { CodaPanel } from './CodaPanel';
+import { AnnotatorAgreementPanel } from './AnnotatorAgreementPanel';
+import { ClickRefinementPanel } from './ClickRefinementPanel';
+import { ClickSuppressionPanel } from './ClickSuppressionPanel';
+import { ToleranceSweepPanel } from './ToleranceSweepPanel';
+import { GroupComparisonPanel } from './GroupComparisonPanel';
+import { ErrorBrowserPanel } from './ErrorBrowserPanel';
+import { TimingOffsetPanel } from './TimingOffsetPanel';
+import { MetricTimeline } from './MetricTimeline';
+import { ChunkBoundaryPanel } from './ChunkBoundaryPanel';
+import {
+  DEFAULT_TOLERANCE_MS,
+  MatchingStrategy,
   calculateEvaluationMetrics,
-  formatEvaluationMetrics,
 } from '@/entities/MarkerManager/utils/evaluationMetrics';
+import { ChunkWindow, getChunkWindows } from '@/entities/MarkerManager/utils/chunkBoundaryAnalysis';
+import { PredictionRunSettings } from '@/entities/MarkerManager/utils/evaluationReport';
 
 interface RegionWaveformProps {
   audioUrl: string;
   selectionGroups: SelectionGroup[];
+  visibility: SelectionVisibility;
+  onVisibilityChange: (visibility: SelectionVisibility) => void;
   audioId: string;
   onPredictionUpdate?: (selections: Selection[]) => void;
+  onGroupAdd?: (group: SelectionGroup) => void;
+  onSelectionAdd?: (groupId: string, selection: Selection) => void;
+  onSelectionRemove?: (groupId: string, selectionId: string) => void;
+  onSelectionMove?: (groupId: string, selectionId: string, beginTime: number) => void;
+  onSelectionMoveEnd?: (
+    groupId: string,
+    selectionId: string,
+    fromTime: number,
+    toTime: number
+  ) => void;
+  reviewDecisions?: ReviewDecisions;
+  onReviewDecision?: (prediction: Selection, decision: ReviewDecision) => void;
+  codas?: Coda[];
+  onCodasChange?: (codas: Coda[], label: string) => void;
 }
 
 export const RegionWaveform: React.FC<RegionWaveformProps> = ({
   audioUrl,
   selectionGroups,
+  visibility: groupVisibility,
+  onVisibilityChange,
   audioId,
   onPredictionUpdate,
+  onGroupAdd,
+  onSelectionAdd,
+  onSelectionRemove,
+  onSelectionMove,
+  onSelectionMoveEnd,
+  reviewDecisions = {},
+  onReviewDecision,
+  codas = [],
+  onCodasChange,
 }) => {
   const audioRef = useRef<HTMLAudioElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [croppedPlayerPosition, setCroppedPlayerPosition] = useState<number>(0);
+  const [isAnnotating, setIsAnnotating] = useState<boolean>(false);
+  const [isReviewing, setIsReviewing] = useState<boolean>(false);
+  const [categoryVisibility, setCategoryVisibility] = useState<CategoryVisibility>({});
+  // Category given to clicks added in annotation mode
+  const [annotationCategory, setAnnotationCategory] = useState<string | undefined>();
+  // Clicks scored below this confidence are hidden and left out of the metrics
+  const [confidenceThreshold, setConfidenceThreshold] = useState<number>(0);
+  // How predictions are paired with ground truth clicks in all metrics
+  const [matching, setMatching] = useState<MatchingStrategy>('greedy');
+  // Groups compared by the evaluation metrics
+  const [referenceGroupId, setReferenceGroupId] = useState<string>('true');
+  const [candidateGroupId, setCandidateGroupId] = useState<string>('realtime-lstm');
+  // Color the markers of the compared groups by their match outcome
+  const [showEvaluationView, setShowEvaluationView] = useState<boolean>(false);
+  // Chunks and settings of the last real-time prediction run and the file it ran on
+  const [predictionRun, setPredictionRun] = useState<{
+    audioId: string;
+    chunks: ChunkWindow[];
+    settings: PredictionRunSettings;
+  } | null>(null);
+  const [showChunkBoundaries, setShowChunkBoundaries] = useState<boolean>(false);
+  const [sampleRate, setSampleRate] = useState<number | undefined>();
   const croppedRef = useRef<HTMLDivElement>(null);
 
   const {
@@ -46,19 +128,10 @@ export const RegionWaveform: React.FC<RegionWaveformProps> = ({
     setupCropped,
   } = useWaveSurfer();
 
-  // Initialize visibility state for all selection groups to true
-  const initialVisibility = useMemo(() => {
-    const visibility: SelectionVisibility = {};
-    selectionGroups.forEach((group) => {
-      visibility[group.id] = true;
-    });
-    return visibility;
-  }, [selectionGroups]);
-
-  const [groupVisibility, setGroupVisibility] = useState<SelectionVisibility>(initialVisibility);
+  useHistoryHotkeys();
 
   const handleVisibilityChange = (visibility: SelectionVisibility) => {
-    setGroupVisibility(visibility);
+    onVisibilityChange(visibility);
   };
 
   useEffect(() => {
@@ -73,62 +146,144 @@ export const RegionWaveform: React.FC<RegionWaveformProps> = ({
     }
   }, [isInitialized, setupCropped]);
 
-  // Update visibility if selection groups change
-  useEffect(() => {
-    setGroupVisibility(initialVisibility);
-  }, [initialVisibility]);
+  const canAnnotate = !!onSelectionAdd;
 
-  // Calculate evaluation metrics for the selected region
-  const regionEvaluationMetrics = useMemo(() => {
-    if (!selectedRegion.region || !selectionGroups.length) return null;
+  // Real-time predictions of this file, in the order they are reviewed
+  const reviewPredictions = useMemo(() => {
+    const predictionsGroup = selectionGroups.find((group) => group.id === 'realtime-lstm');
+    return getSelectionsForAudio(predictionsGroup?.selections ?? [], audioId).sort(
+      (a, b) => a.beginTime - b.beginTime
+    );
+  }, [selectionGroups, audioId]);
 
-    // Find ground truth (True Clicks) and real-time LSTM predictions
-    const groundTruthGroup = selectionGroups.find((group) => group.id === 'true');
-    const realtimeLstmGroup = selectionGroups.find((group) => group.id === 'realtime-lstm');
+  // Read the native sample rate so that dragged markers snap to whole samples
+  useEffect(() => {
+    let isCurrent = true;
 
-    if (!groundTruthGroup || !realtimeLstmGroup) {
-      return null;
+    if (audioUrl) {
+      readWavSampleRate(audioUrl).then((rate) => {
+        if (isCurrent) {
+          setSampleRate(rate ?? undefined);
+        }
+      });
     }
 
-    // Filter selections within the selected region's time bounds
-    const filterSelectionsInRegion = (selections: Selection[]) => {
-      return selections.filter((selection) => {
-        // First filter by audio ID
-        const matchesAudio =
-          selection.audioId?.toLowerCase() === audioId.toLowerCase() ||
-          selection.name?.toLowerCase().includes(audioId.toLowerCase());
+    return () => {
+      isCurrent = false;
+    };
+  }, [audioUrl]);
 
-        if (!matchesAudio) return false;
+  // Add a click to the annotation group when the main waveform is clicked in annotation mode
+  useEffect(() => {
+    if (!wavesurfer || !isAnnotating || !onSelectionAdd) return;
+
+    const handleClick = (relativeX: number) => {
+      const time = relativeX * wavesurfer.getDuration();
+      onSelectionAdd(
+        ANNOTATION_GROUP_ID,
+        createAnnotationSelection(time, audioId, annotationCategory)
+      );
+    };
 
-        // Then filter by time bounds within the region
-        const selectionTime = selection.beginTime;
-        return (
-          selectionTime >= selectedRegion.region!.start &&
-          selectionTime <= selectedRegion.region!.end
+    wavesurfer.on('click', handleClick);
+
+    return () => {
+      wavesurfer.un('click', handleClick);
+    };
+  }, [wavesurfer, isAnnotating, onSelectionAdd, audioId, annotationCategory]);
+
+  // Add a click at the cursor position with the "A" hotkey in annotation mode, number keys pick
+  // the category of new clicks
+  useEffect(() => {
+    if (!wavesurfer || !isAnnotating || !onSelectionAdd) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+      if (event.key === 'a' || event.key === 'A') {
+        event.preventDefault();
+        const time = wavesurfer.getCurrentTime();
+        onSelectionAdd(
+          ANNOTATION_GROUP_ID,
+          createAnnotationSelection(time, audioId, annotationCategory)
         );
-      });
+        return;
+      }
+
+      if (event.key === '0') {
+        setAnnotationCategory(undefined);
+        return;
+      }
+
+      const category = clickCategories.find((item) => item.hotkey === event.key);
+      if (category) {
+        setAnnotationCategory(category.id);
+      }
     };
 
-    const regionGroundTruth = filterSelectionsInRegion(groundTruthGroup.selections);
-    const regionPredictions = filterSelectionsInRegion(realtimeLstmGroup.selections);
+    window.addEventListener('keydown', handleKeyDown);
 
-    // Only show evaluation metrics if there are ground truth selections for this region
-    if (regionGroundTruth.length === 0) {
-      return null;
-    }
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [wavesurfer, isAnnotating, onSelectionAdd, audioId, annotationCategory]);
 
-    // Don't show if there are no predictions either
-    if (regionPredictions.length === 0) {
-      return null;
-    }
+  const referenceGroup = selectionGroups.find((group) => group.id === referenceGroupId);
+  const candidateGroup = selectionGroups.find((group) => group.id === candidateGroupId);
+
+  // Clicks of the compared reference and candidate groups in this file; like the real-time
+  // metrics, the confidence threshold only applies to the candidate
+  const comparedSelections = useMemo(() => {
+    if (!referenceGroup || !candidateGroup) return null;
+
+    return {
+      reference: getSelectionsForAudio(referenceGroup.selections, audioId),
+      candidate: getSelectionsForAudio(candidateGroup.selections, audioId).filter((selection) =>
+        isSelectionAboveThreshold(selection, confidenceThreshold)
+      ),
+    };
+  }, [referenceGroup, candidateGroup, audioId, confidenceThreshold]);
+
+  const currentPredictionRun = predictionRun?.audioId === audioId ? predictionRun : null;
+  const chunks = useMemo(() => currentPredictionRun?.chunks ?? [], [currentPredictionRun]);
+  // The last run only describes the candidate when it holds the real-time predictions
+  const isRealtimeCandidate = candidateGroupId === 'realtime-lstm';
+  const candidatePredictionRun = isRealtimeCandidate
+    ? (currentPredictionRun?.settings ?? null)
+    : null;
+  const isChunkBoundaryOverlayShown = isRealtimeCandidate && showChunkBoundaries;
+
+  // Evaluation metrics of the candidate group against the reference group in the whole file
+  const fileEvaluationMetrics = useMemo(() => {
+    if (!comparedSelections) return null;
 
     return calculateEvaluationMetrics(
-      regionGroundTruth,
-      regionPredictions,
-      2, // Using 1ms tolerance as set in the main component
-      audioId
+      comparedSelections.reference,
+      comparedSelections.candidate,
+      DEFAULT_TOLERANCE_MS,
+      undefined,
+      matching
     );
-  }, [selectionGroups, selectedRegion.region, audioId]);
+  }, [comparedSelections, matching]);
+
+  // Same metrics restricted to the selected region
+  const regionEvaluationMetrics = useMemo(() => {
+    if (!selectedRegion.region || !comparedSelections) return null;
+
+    const { start, end } = selectedRegion.region;
+    const isInRegion = (selection: Selection) =>
+      selection.beginTime >= start && selection.beginTime <= end;
+
+    return calculateEvaluationMetrics(
+      comparedSelections.reference.filter(isInRegion),
+      comparedSelections.candidate.filter(isInRegion),
+      DEFAULT_TOLERANCE_MS,
+      undefined,
+      matching
+    );
+  }, [selectedRegion.region, comparedSelections, matching]);
 
   // Calculate click counts for each algorithm in the selected region
   const regionClickCounts = useMemo(() => {
@@ -207,8 +362,25 @@ export const RegionWaveform: React.FC<RegionWaveformProps> = ({
             visibility={groupVisibility}
             onVisibilityChange={handleVisibilityChange}
             currentAudioId={audioId}
+            categoryVisibility={categoryVisibility}
+            onCategoryVisibilityChange={setCategoryVisibility}
+          />
+
+          <SelectionExportControls
+            selectionGroups={selectionGroups}
+            currentAudioId={audioId}
+            sampleRate={sampleRate}
           />
 
+          {onGroupAdd && (
+            <SelectionImportControls
+              selectionGroups={selectionGroups}
+              currentAudioId={audioId}
+              onImport={onGroupAdd}
+              onRegionsImport={waveSurferActions.addRegions}
+            />
+          )}
+
           {/* Real-time Prediction Manager */}
           {onPredictionUpdate && (
             <div style={{ marginTop: '15px' }}>
@@ -233,6 +405,17 @@ export const RegionWaveform: React.FC<RegionWaveformProps> = ({
                 audioId={audioId}
                 onSelectionsUpdate={onPredictionUpdate}
                 selectionGroups={selectionGroups}
+                confidenceThreshold={confidenceThreshold}
+                onConfidenceThresholdChange={setConfidenceThreshold}
+                referenceGroupId={referenceGroupId}
+                matching={matching}
+                onChunksCreated={(created, api, chunking) =>
+                  setPredictionRun({
+                    audioId,
+                    chunks: getChunkWindows(created),
+                    settings: { api, chunking },
+                  })
+                }
               />
             </div>
           )}
@@ -263,15 +446,37 @@ export const RegionWaveform: React.FC<RegionWaveformProps> = ({
             padding: '10px 0',
           }}
         >
+          {wavesurfer && (
+            <CodaOverlay
+              wavesurfer={wavesurfer}
+              codas={codas}
+              selectionGroups={selectionGroups}
+              currentAudioId={audioId}
+            />
+          )}
+          {wavesurfer && isChunkBoundaryOverlayShown && (
+            <ChunkBoundaryOverlay wavesurfer={wavesurfer} chunks={chunks} />
+          )}
           {wavesurfer && (
             <MarkerManager
               wavesurfer={wavesurfer}
               selectionGroups={selectionGroups}
               visibility={groupVisibility}
+              categoryVisibility={categoryVisibility}
+              confidenceThreshold={confidenceThreshold}
+              evaluation={showEvaluationView ? fileEvaluationMetrics : null}
               currentAudioId={audioId}
+              sampleRate={sampleRate}
+              onSelectionRemove={isAnnotating ? onSelectionRemove : undefined}
+              onSelectionMove={onSelectionMove}
+              onSelectionMoveEnd={onSelectionMoveEnd}
             />
           )}
         </div>
+
+        {wavesurfer && isLoaded && fileEvaluationMetrics && (
+          <MetricTimeline metrics={fileEvaluationMetrics} duration={wavesurfer.getDuration()} />
+        )}
       </div>
 
       <div style={{ display: 'flex', gap: '10px', marginBottom: '20px', marginTop: '20px' }}>
@@ -306,8 +511,185 @@ export const RegionWaveform: React.FC<RegionWaveformProps> = ({
         >
           Clear Regions
         </button>
+
+        {canAnnotate && (
+          <button
+            onClick={() => setIsAnnotating((prev) => !prev)}
+            style={{
+              padding: '8px 16px',
+              background: isAnnotating ? '#9C27B0' : '#fff',
+              color: isAnnotating ? 'white' : '#9C27B0',
+              border: '1px solid #9C27B0',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              opacity: isInitialized ? 1 : 0.5,
+            }}
+            disabled={!isInitialized}
+            title='Toggle annotation mode'
+          >
+            {isAnnotating ? 'Stop Annotating' : 'Annotate'}
+          </button>
+        )}
+
+        {onReviewDecision && (
+          <button
+            onClick={() => setIsReviewing((prev) => !prev)}
+            style={{
+              padding: '8px 16px',
+              background: isReviewing ? '#009688' : '#fff',
+              color: isReviewing ? 'white' : '#009688',
+              border: '1px solid #009688',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              opacity: isInitialized && reviewPredictions.length > 0 ? 1 : 0.5,
+            }}
+            disabled={!isInitialized || (!isReviewing && reviewPredictions.length === 0)}
+            title='Step through real-time predictions and accept or reject them'
+          >
+            {isReviewing ? 'Stop Reviewing' : 'Review Predictions'}
+          </button>
+        )}
       </div>
 
+      {isReviewing && onReviewDecision && (
+        <PredictionReviewPanel
+          predictions={reviewPredictions}
+          decisions={reviewDecisions}
+          onDecision={onReviewDecision}
+          onClose={() => setIsReviewing(false)}
+        />
+      )}
+
+      <HistoryPanel />
+
+      {onCodasChange && (
+        <CodaPanel
+          selectionGroups={selectionGroups}
+          audioId={audioId}
+          codas={codas}
+          selectedRange={
+            selectedRegion.region
+              ? { start: selectedRegion.region.start, end: selectedRegion.region.end }
+              : null
+          }
+          onCodasChange={onCodasChange}
+        />
+      )}
+
+      {onGroupAdd && (
+        <ClickRefinementPanel
+          selectionGroups={selectionGroups}
+          audioId={audioId}
+          audioElement={audioRef.current}
+          selectedRange={
+            selectedRegion.region
+              ? { start: selectedRegion.region.start, end: selectedRegion.region.end }
+              : null
+          }
+          onGroupAdd={onGroupAdd}
+        />
+      )}
+
+      {onGroupAdd && (
+        <ClickSuppressionPanel
+          selectionGroups={selectionGroups}
+          audioId={audioId}
+          onGroupAdd={onGroupAdd}
+        />
+      )}
+
+      <GroupComparisonPanel
+        selectionGroups={selectionGroups}
+        audioId={audioId}
+        selectedRange={
+          selectedRegion.region
+            ? { start: selectedRegion.region.start, end: selectedRegion.region.end }
+            : null
+        }
+        confidenceThreshold={confidenceThreshold}
+        referenceId={referenceGroupId}
+        candidateId={candidateGroupId}
+        onReferenceChange={setReferenceGroupId}
+        onCandidateChange={setCandidateGroupId}
+        matching={matching}
+        onMatchingChange={setMatching}
+        predictionRun={candidatePredictionRun}
+        fileMetrics={fileEvaluationMetrics}
+        regionMetrics={regionEvaluationMetrics}
+        showEvaluationView={showEvaluationView}
+        onShowEvaluationViewChange={setShowEvaluationView}
+      />
+
+      {fileEvaluationMetrics && <ErrorBrowserPanel metrics={fileEvaluationMetrics} />}
+
+      {fileEvaluationMetrics && candidateGroup && (
+        <TimingOffsetPanel
+          metrics={fileEvaluationMetrics}
+          selectionGroups={selectionGroups}
+          candidateGroup={candidateGroup}
+          audioId={audioId}
+          onGroupAdd={onGroupAdd}
+        />
+      )}
+
+      {fileEvaluationMetrics && candidateGroup && isRealtimeCandidate && chunks.length > 0 && (
+        <ChunkBoundaryPanel
+          metrics={fileEvaluationMetrics}
+          candidateName={candidateGroup.name}
+          chunks={chunks}
+          showBoundaries={showChunkBoundaries}
+          onShowBoundariesChange={setShowChunkBoundaries}
+        />
+      )}
+
+      <ToleranceSweepPanel
+        selectionGroups={selectionGroups}
+        audioId={audioId}
+        matching={matching}
+      />
+
+      {onGroupAdd && selectionGroups.some((group) => group.annotatorId) && (
+        <AnnotatorAgreementPanel
+          selectionGroups={selectionGroups}
+          audioId={audioId}
+          matching={matching}
+          onGroupAdd={onGroupAdd}
+        />
+      )}
+
+      {isAnnotating && (
+        <div
+          style={{
+            marginBottom: '20px',
+            padding: '8px 12px',
+            backgroundColor: '#F3E5F5',
+            border: '1px solid #E1BEE7',
+            borderRadius: '4px',
+            fontSize: '12px',
+            color: '#6A1B9A',
+          }}
+        >
+          Annotation mode: click the waveform or press <strong>A</strong> to add a click at the
+          cursor. Right-click an annotation marker to delete it.
+          <div style={{ marginTop: '6px', display: 'flex', alignItems: 'center', gap: '6px' }}>
+            Category of new clicks:
+            <select
+              value={annotationCategory ?? ''}
+              onChange={(e) => setAnnotationCategory(e.target.value || undefined)}
+              style={{ fontSize: '12px' }}
+            >
+              <option value=''>None (0)</option>
+              {clickCategories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                  {category.hotkey ? ` (${category.hotkey})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
       <div
         style={{
           marginTop: '20px',
@@ -390,25 +772,6 @@ export const RegionWaveform: React.FC<RegionWaveformProps> = ({
               </div>
             )}
 
-            {/* Region evaluation metrics display */}
-            {regionEvaluationMetrics && (
-              <div
-                style={{
-                  marginTop: '12px',
-                  padding: '8px 12px',
-                  backgroundColor: '#E8F5E8',
-                  borderRadius: '4px',
-                  border: '1px solid #C8E6C9',
-                  fontSize: '12px',
-                  color: '#2E7D32',
-                }}
-              >
-                <strong>Region Evaluation vs True Clicks:</strong>
-                <br />
-                {formatEvaluationMetrics(regionEvaluationMetrics)}
-              </div>
-            )}
-
             {/* Region action buttons */}
             <div
               style={{
@@ -577,14 +940,39 @@ export const RegionWaveform: React.FC<RegionWaveformProps> = ({
               : 'transparent',
           }}
         >
+          {croppedWaveSurfer && selectedRegion.region && (
+            <CodaOverlay
+              wavesurfer={croppedWaveSurfer}
+              codas={codas}
+              selectionGroups={selectionGroups}
+              beginTime={selectedRegion.region.start}
+              endTime={selectedRegion.region.end}
+              currentAudioId={audioId}
+            />
+          )}
+          {croppedWaveSurfer && selectedRegion.region && isChunkBoundaryOverlayShown && (
+            <ChunkBoundaryOverlay
+              wavesurfer={croppedWaveSurfer}
+              chunks={chunks}
+              beginTime={selectedRegion.region.start}
+              endTime={selectedRegion.region.end}
+            />
+          )}
           {croppedWaveSurfer && selectedRegion.region && (
             <MarkerManager
               wavesurfer={croppedWaveSurfer}
               selectionGroups={selectionGroups}
               visibility={groupVisibility}
+              categoryVisibility={categoryVisibility}
+              confidenceThreshold={confidenceThreshold}
+              evaluation={showEvaluationView ? fileEvaluationMetrics : null}
               beginTime={selectedRegion.region.start}
               endTime={selectedRegion.region.end}
               currentAudioId={audioId}
+              sampleRate={sampleRate}
+              onSelectionRemove={isAnnotating ? onSelectionRemove : undefined}
+              onSelectionMove={onSelectionMove}
+              onSelectionMoveEnd={onSelectionMoveEnd}
             />
           )}
 
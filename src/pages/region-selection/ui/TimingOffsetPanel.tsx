@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import { OffsetHistogram } from '@entities/MarkerManager';
+import {
+  SelectionGroup,
+  getSelectionsForAudio,
+  isSelectionForAudio,
+} from '@entities/MarkerManager/model';
+import { EvaluationMetrics } from '@/entities/MarkerManager/utils/evaluationMetrics';
+import {
+  calculateOffsetStatistics,
+  shiftSelections,
+} from '@/entities/MarkerManager/utils/offsetAnalysis';
+
+interface TimingOffsetPanelProps {
+  /** Evaluation of the candidate group against the reference group in the current file */
+  metrics: EvaluationMetrics;
+  selectionGroups: SelectionGroup[];
+  candidateGroup: SelectionGroup;
+  audioId: string;
+  /** When set, a time-shifted copy of the candidate group can be created */
+  onGroupAdd?: (group: SelectionGroup) => void;
+}
+
+/**
+ * Estimate of the systematic lag removed by the offset correction
+ */
+type LagEstimate = 'mean' | 'median';
+
+const formatMs = (seconds: number) => `${(seconds * 1000).toFixed(3)} ms`;
+
+/**
+ * ID of the group holding the time-shifted clicks of a group
+ */
+const getShiftedGroupId = (groupId: string) => `${groupId}-shifted`;
+
+/**
+ * Panel showing the timing offsets of matched clicks in the current file and correcting the
+ * candidate group for their systematic lag
+ */
+export const TimingOffsetPanel: React.FC<TimingOffsetPanelProps> = ({
+  metrics,
+  selectionGroups,
+  candidateGroup,
+  audioId,
+  onGroupAdd,
+}) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [estimate, setEstimate] = useState<LagEstimate>('median');
+
+  const offsets = useMemo(() => metrics.matches.map((match) => match.offset), [metrics]);
+  const statistics = useMemo(() => calculateOffsetStatistics(offsets), [offsets]);
+  const lag = statistics ? statistics[estimate] : 0;
+
+  const handleApply = () => {
+    if (!onGroupAdd || !statistics) return;
+
+    const shiftedGroupId = getShiftedGroupId(candidateGroup.id);
+    const existing = selectionGroups.find((group) => group.id === shiftedGroupId);
+    // Keep the shifted clicks of other files
+    const kept =
+      existing?.selections.filter((selection) => !isSelectionForAudio(selection, audioId)) ?? [];
+    const shifted = shiftSelections(
+      getSelectionsForAudio(candidateGroup.selections, audioId),
+      -lag
+    );
+
+    onGroupAdd({
+      id: shiftedGroupId,
+      name: `${candidateGroup.name} (shifted)`,
+      color: '#795548', // Brown
+      description: `${candidateGroup.name} shifted to remove its ${estimate} offset of ${formatMs(lag)}`,
+      selections: [
+        ...kept,
+        ...shifted.map((selection) => ({ ...selection, source: shiftedGroupId })),
+      ],
+    });
+  };
+
+  return (
+    <div
+      style={{
+        marginBottom: '20px',
+        padding: '10px 12px',
+        backgroundColor: '#f9f9f9',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        fontSize: '12px',
+      }}
+    >
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px' }}>
+        <strong style={{ color: '#455A64' }}>Timing offsets</strong>
+        <button
+          onClick={() => setIsOpen((prev) => !prev)}
+          style={{
+            padding: '2px 8px',
+            border: '1px solid #ccc',
+            borderRadius: '4px',
+            background: 'white',
+            cursor: 'pointer',
+            fontSize: '11px',
+          }}
+        >
+          {isOpen ? 'Hide' : 'Show'}
+        </button>
+
+        {isOpen && onGroupAdd && statistics && (
+          <>
+            <select
+              value={estimate}
+              onChange={(e) => setEstimate(e.target.value as LagEstimate)}
+              style={{ fontSize: '12px' }}
+              title='Estimate of the systematic lag; the median is less affected by outliers'
+            >
+              <option value='median'>Median offset</option>
+              <option value='mean'>Mean offset</option>
+            </select>
+            <button
+              onClick={handleApply}
+              style={{
+                padding: '4px 10px',
+                background: '#795548',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '12px',
+              }}
+              title='Create a copy of the candidate group with its clicks in this file shifted by minus the offset'
+            >
+              Apply offset correction ({formatMs(-lag)})
+            </button>
+          </>
+        )}
+      </div>
+
+      {isOpen && (
+        <div style={{ marginTop: '8px' }}>
+          <OffsetHistogram offsets={offsets} toleranceMs={metrics.tolerance} />
+        </div>
+      )}
+    </div>
+  );
+};
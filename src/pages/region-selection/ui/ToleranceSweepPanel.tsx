@@ -0,0 +1,339 @@
+import React, { useMemo, useState } from 'react';
+import { SelectionGroup, getSelectionsForAudio } from '@entities/MarkerManager/model';
+import {
+  DEFAULT_TOLERANCE_MS,
+  MatchingStrategy,
+} from '@/entities/MarkerManager/utils/evaluationMetrics';
+import {
+  ToleranceSweepPoint,
+  calculateToleranceSweep,
+  createToleranceSteps,
+  serializeToleranceSweep,
+} from '@/entities/MarkerManager/utils/toleranceSweep';
+import { downloadTextFile } from '@/shared/lib/download';
+
+interface ToleranceSweepPanelProps {
+  selectionGroups: SelectionGroup[];
+  audioId: string;
+  matching?: MatchingStrategy;
+}
+
+const CURVES: { key: 'precision' | 'recall' | 'f1Score'; label: string; color: string }[] = [
+  { key: 'precision', label: 'Precision', color: '#2196F3' },
+  { key: 'recall', label: 'Recall', color: '#FF9800' },
+  { key: 'f1Score', label: 'F1', color: '#4CAF50' },
+];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+const MARGIN = { top: 10, right: 15, bottom: 30, left: 40 };
+
+/**
+ * Tick values of a logarithmic tolerance axis (ms)
+ */
+const LOG_TICKS = [0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 50, 100, 200, 500];
+
+interface ToleranceSweepChartProps {
+  points: ToleranceSweepPoint[];
+}
+
+/**
+ * Line chart of precision, recall and F1 score over a logarithmic tolerance axis
+ */
+const ToleranceSweepChart: React.FC<ToleranceSweepChartProps> = ({ points }) => {
+  const minTolerance = points[0].toleranceMs;
+  const maxTolerance = points[points.length - 1].toleranceMs;
+  const plotWidth = CHART_WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+
+  const x = (toleranceMs: number) =>
+    maxTolerance > minTolerance
+      ? MARGIN.left +
+        (Math.log(toleranceMs / minTolerance) / Math.log(maxTolerance / minTolerance)) * plotWidth
+      : MARGIN.left + plotWidth / 2;
+  const y = (value: number) => MARGIN.top + (1 - value) * plotHeight;
+
+  const ticks = LOG_TICKS.filter((tick) => tick >= minTolerance && tick <= maxTolerance);
+  const showDefault = DEFAULT_TOLERANCE_MS >= minTolerance && DEFAULT_TOLERANCE_MS <= maxTolerance;
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      style={{ width: '100%', maxWidth: `${CHART_WIDTH}px`, display: 'block' }}
+    >
+      {/* Grid and axes */}
+      {[0, 0.25, 0.5, 0.75, 1].map((value) => (
+        <g key={value}>
+          <line
+            x1={MARGIN.left}
+            x2={MARGIN.left + plotWidth}
+            y1={y(value)}
+            y2={y(value)}
+            stroke='#eee'
+          />
+          <text x={MARGIN.left - 6} y={y(value) + 4} fontSize='10' textAnchor='end' fill='#666'>
+            {value * 100}%
+          </text>
+        </g>
+      ))}
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line
+            x1={x(tick)}
+            x2={x(tick)}
+            y1={MARGIN.top}
+            y2={MARGIN.top + plotHeight}
+            stroke='#eee'
+          />
+          <text
+            x={x(tick)}
+            y={MARGIN.top + plotHeight + 14}
+            fontSize='10'
+            textAnchor='middle'
+            fill='#666'
+          >
+            {tick}
+          </text>
+        </g>
+      ))}
+      <text
+        x={MARGIN.left + plotWidth / 2}
+        y={CHART_HEIGHT - 2}
+        fontSize='10'
+        textAnchor='middle'
+        fill='#666'
+      >
+        Tolerance (ms, log scale)
+      </text>
+
+      {/* Tolerance used by the other evaluation views */}
+      {showDefault && (
+        <line
+          x1={x(DEFAULT_TOLERANCE_MS)}
+          x2={x(DEFAULT_TOLERANCE_MS)}
+          y1={MARGIN.top}
+          y2={MARGIN.top + plotHeight}
+          stroke='#9E9E9E'
+          strokeDasharray='4 3'
+        >
+          <title>Default tolerance ({DEFAULT_TOLERANCE_MS} ms)</title>
+        </line>
+      )}
+
+      {/* Curves */}
+      {CURVES.map((curve) => (
+        <g key={curve.key}>
+          <polyline
+            points={points
+              .map((point) => `${x(point.toleranceMs)},${y(point[curve.key])}`)
+              .join(' ')}
+            fill='none'
+            stroke={curve.color}
+            strokeWidth='2'
+          />
+          {points.map((point) => (
+            <circle
+              key={point.toleranceMs}
+              cx={x(point.toleranceMs)}
+              cy={y(point[curve.key])}
+              r='2.5'
+              fill={curve.color}
+            >
+              <title>
+                {curve.label} at {point.toleranceMs.toFixed(2)} ms:{' '}
+                {(point[curve.key] * 100).toFixed(1)}%
+              </title>
+            </circle>
+          ))}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+/**
+ * Panel plotting precision, recall and F1 score of one group against another over a range of
+ * matching tolerances
+ */
+export const ToleranceSweepPanel: React.FC<ToleranceSweepPanelProps> = ({
+  selectionGroups,
+  audioId,
+  matching,
+}) => {
+  const groupsWithClicks = selectionGroups.filter(
+    (group) => getSelectionsForAudio(group.selections, audioId).length > 0
+  );
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [referenceId, setReferenceId] = useState<string>('true');
+  const [candidateId, setCandidateId] = useState<string>('realtime-lstm');
+  const [minMs, setMinMs] = useState<number>(0.1);
+  const [maxMs, setMaxMs] = useState<number>(20);
+  const [steps, setSteps] = useState<number>(25);
+
+  const reference =
+    groupsWithClicks.find((group) => group.id === referenceId) ?? groupsWithClicks[0];
+  const candidate =
+    groupsWithClicks.find((group) => group.id === candidateId && group !== reference) ??
+    groupsWithClicks.find((group) => group !== reference);
+
+  const points = useMemo(() => {
+    if (!isOpen || !reference || !candidate) return [];
+
+    return calculateToleranceSweep(
+      getSelectionsForAudio(reference.selections, audioId),
+      getSelectionsForAudio(candidate.selections, audioId),
+      createToleranceSteps(minMs, maxMs, steps),
+      matching
+    );
+  }, [isOpen, reference, candidate, minMs, maxMs, steps, audioId, matching]);
+
+  const handleExport = () => {
+    if (!reference || !candidate) return;
+
+    downloadTextFile(
+      serializeToleranceSweep(points),
+      `tolerance_sweep_${audioId}_${reference.id}_vs_${candidate.id}.csv`,
+      'text/csv'
+    );
+  };
+
+  const inputStyle: React.CSSProperties = { width: '55px', fontSize: '12px' };
+
+  return (
+    <div
+      style={{
+        marginBottom: '20px',
+        padding: '10px 12px',
+        backgroundColor: '#f9f9f9',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        fontSize: '12px',
+      }}
+    >
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px' }}>
+        <strong style={{ color: '#455A64' }}>Tolerance sweep</strong>
+        <button
+          onClick={() => setIsOpen((prev) => !prev)}
+          style={{
+            padding: '2px 8px',
+            border: '1px solid #ccc',
+            borderRadius: '4px',
+            background: 'white',
+            cursor: 'pointer',
+            fontSize: '11px',
+          }}
+        >
+          {isOpen ? 'Hide' : 'Show'}
+        </button>
+
+        {isOpen && (
+          <>
+            <label>
+              Reference{' '}
+              <select
+                value={reference?.id ?? ''}
+                onChange={(e) => setReferenceId(e.target.value)}
+                style={{ fontSize: '12px' }}
+              >
+                {groupsWithClicks.map((group) => (
+                  <option key={group.id} value={group.id}>
+                    {group.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Candidate{' '}
+              <select
+                value={candidate?.id ?? ''}
+                onChange={(e) => setCandidateId(e.target.value)}
+                style={{ fontSize: '12px' }}
+              >
+                {groupsWithClicks
+                  .filter((group) => group !== reference)
+                  .map((group) => (
+                    <option key={group.id} value={group.id}>
+                      {group.name}
+                    </option>
+                  ))}
+              </select>
+            </label>
+            <label>
+              From{' '}
+              <input
+                type='number'
+                min={0.01}
+                step={0.1}
+                value={minMs}
+                onChange={(e) => setMinMs(Math.max(0.01, Number(e.target.value) || 0.01))}
+                style={inputStyle}
+              />
+            </label>
+            <label>
+              to{' '}
+              <input
+                type='number'
+                min={0.1}
+                step={1}
+                value={maxMs}
+                onChange={(e) => setMaxMs(Number(e.target.value) || 0)}
+                style={inputStyle}
+              />{' '}
+              ms
+            </label>
+            <label>
+              Steps{' '}
+              <input
+                type='number'
+                min={2}
+                max={200}
+                step={1}
+                value={steps}
+                onChange={(e) =>
+                  setSteps(Math.min(200, Math.max(2, Math.round(Number(e.target.value) || 2))))
+                }
+                style={inputStyle}
+              />
+            </label>
+            <button
+              onClick={handleExport}
+              disabled={points.length === 0}
+              style={{
+                padding: '4px 10px',
+                background: points.length > 0 ? '#607D8B' : '#cfd8dc',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: points.length > 0 ? 'pointer' : 'not-allowed',
+                fontSize: '12px',
+              }}
+            >
+              Export CSV
+            </button>
+          </>
+        )}
+      </div>
+
+      {isOpen &&
+        (points.length > 1 ? (
+          <div style={{ marginTop: '8px' }}>
+            <div style={{ display: 'flex', gap: '12px', marginBottom: '4px' }}>
+              {CURVES.map((curve) => (
+                <span key={curve.key} style={{ color: curve.color, fontWeight: 'bold' }}>
+                  ― {curve.label}
+                </span>
+              ))}
+              <span style={{ color: '#9E9E9E' }}>┆ Default tolerance</span>
+            </div>
+            <ToleranceSweepChart points={points} />
+          </div>
+        ) : (
+          <div style={{ marginTop: '6px', color: '#999' }}>
+            {reference && candidate
+              ? 'Choose a tolerance range with a larger upper than lower bound.'
+              : 'Two groups with clicks in this file are needed for a sweep.'}
+          </div>
+        ))}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+export interface ClickCategoryConfig {
+  id: string;
+  name: string;
+  description: string;
+  /** Color of the category badge on markers and in filters */
+  color: string;
+  /** Line style of markers with this category */
+  lineStyle: 'solid' | 'dashed' | 'dotted';
+  /** Keyboard shortcut that picks the category while annotating */
+  hotkey?: string;
+}
+
+/**
+ * Key used for selections without a category in category filters
+ */
+export const UNCATEGORIZED = 'uncategorized';
+
+// Click category taxonomy, edit this list to change the available categories
+export const clickCategories: ClickCategoryConfig[] = [
+  {
+    id: 'regular',
+    name: 'Regular',
+    description: 'Usual echolocation clicks',
+    color: '#607D8B', // Blue grey
+    lineStyle: 'solid',
+    hotkey: '1',
+  },
+  {
+    id: 'creak',
+    name: 'Creak',
+    description: 'Rapid click trains at the end of foraging dives',
+    color: '#F44336', // Red
+    lineStyle: 'dashed',
+    hotkey: '2',
+  },
+  {
+    id: 'buzz',
+    name: 'Buzz',
+    description: 'Very rapid click trains during prey capture',
+    color: '#FF9800', // Orange
+    lineStyle: 'dotted',
+    hotkey: '3',
+  },
+  {
+    id: 'coda',
+    name: 'Coda',
+    description: 'Clicks of stereotyped social coda patterns',
+    color: '#3F51B5', // Indigo
+    lineStyle: 'solid',
+    hotkey: '4',
+  },
+  {
+    id: 'echo',
+    name: 'Echo',
+    description: 'Surface or bottom reflections of a click',
+    color: '#9E9E9E', // Grey
+    lineStyle: 'dotted',
+    hotkey: '5',
+  },
+];
+
+/**
+ * Find a category by ID (case-insensitive)
+ */
+export const getClickCategory = (id: string | undefined): ClickCategoryConfig | undefined => {
+  if (!id) return undefined;
+  const normalized = id.trim().toLowerCase();
+  return clickCategories.find((category) => category.id === normalized);
+};
@@ -0,0 +1,29 @@
+/**
+ * Browser download helpers
+ */
+
+/**
+ * Offer text content to the user as a file download
+ *
+ * @param content - Text content of the file
+ * @param fileName - Suggested file name
+ * @param mimeType - MIME type of the file (default: plain text)
+ */
+export function downloadTextFile(
+  content: string,
+  fileName: string,
+  mimeType: string = 'text/plain'
+): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,52 @@
+import { useEffect } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useHistoryStore } from './store';
+
+/**
+ * Hook for reading the edit history and stepping through it
+ */
+export const useHistory = () => {
+  return useHistoryStore(
+    useShallow((state) => ({
+      past: state.past,
+      future: state.future,
+      canUndo: state.past.length > 0,
+      canRedo: state.future.length > 0,
+      undo: state.undo,
+      redo: state.redo,
+      clear: state.clear,
+    }))
+  );
+};
+
+/**
+ * Register Ctrl+Z (undo) and Ctrl+Shift+Z / Ctrl+Y (redo) keyboard shortcuts
+ *
+ * Shortcuts are ignored while a text field has focus so that native text undo keeps working.
+ */
+export const useHistoryHotkeys = () => {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      const key = event.key.toLowerCase();
+      const { undo, redo } = useHistoryStore.getState();
+
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+};
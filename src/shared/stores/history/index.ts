@@ -0,0 +1,12 @@
+// Main exports for the history store
+export { useHistoryStore } from './store';
+export { useHistory, useHistoryHotkeys } from './hooks';
+
+// Type exports
+export type {
+  HistoryEntry,
+  HistoryEntryInput,
+  HistoryState,
+  HistoryActions,
+  HistoryStore,
+} from './types';
@@ -0,0 +1,110 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { HistoryStore } from './types';
+
+/**
+ * Default maximum number of operations kept in the undo stack
+ */
+const DEFAULT_MAX_ENTRIES = 200;
+
+let entryCounter = 0;
+
+/**
+ * Undo/redo history store
+ *
+ * Operations are recorded as pairs of undo/redo closures, so the store does not need to
+ * know anything about the state it reverts. Operations triggered while an entry is being
+ * undone or redone are not recorded.
+ */
+export const useHistoryStore = create<HistoryStore>()(
+  devtools(
+    (set, get) => ({
+      // Initial state
+      past: [],
+      future: [],
+      isApplying: false,
+      maxEntries: DEFAULT_MAX_ENTRIES,
+
+      record: (entry) => {
+        if (get().isApplying) return;
+
+        entryCounter++;
+        const newEntry = {
+          ...entry,
+          id: `history_${entryCounter}`,
+          timestamp: Date.now(),
+        };
+
+        set(
+          (state) => ({
+            past: [...state.past, newEntry].slice(-state.maxEntries),
+            // A new operation invalidates everything that was undone before it
+            future: [],
+          }),
+          false,
+          'record'
+        );
+      },
+
+      undo: () => {
+        const { past, isApplying } = get();
+        const entry = past[past.length - 1];
+        if (!entry || isApplying) return;
+
+        get().runWithoutRecording(entry.undo);
+
+        set(
+          (state) => ({
+            past: state.past.slice(0, -1),
+            future: [entry, ...state.future],
+          }),
+          false,
+          'undo'
+        );
+      },
+
+      redo: () => {
+        const { future, isApplying } = get();
+        const entry = future[0];
+        if (!entry || isApplying) return;
+
+        get().runWithoutRecording(entry.redo);
+
+        set(
+          (state) => ({
+            past: [...state.past, entry],
+            future: state.future.slice(1),
+          }),
+          false,
+          'redo'
+        );
+      },
+
+      clear: () => set({ past: [], future: [] }, false, 'clear'),
+
+      clearScope: (scope) =>
+        set(
+          (state) => ({
+            past: state.past.filter((entry) => entry.scope !== scope),
+            future: state.future.filter((entry) => entry.scope !== scope),
+          }),
+          false,
+          'clearScope'
+        ),
+
+      runWithoutRecording: (fn) => {
+        set({ isApplying: true }, false, 'runWithoutRecording:start');
+        try {
+          fn();
+        } catch (error) {
+          console.error('Failed to apply history operation:', error);
+        } finally {
+          set({ isApplying: false }, false, 'runWithoutRecording:end');
+        }
+      },
+    }),
+    {
+      name: 'history-store',
+    }
+  )
+);
@@ -0,0 +1,54 @@
+/**
+ * A single reversible operation in the edit history
+ */
+export interface HistoryEntry {
+  /** Unique entry ID */
+  id: string;
+  /** Human-readable description shown in the history panel */
+  label: string;
+  /** Part of the app the operation belongs to, so that its entries can be dropped together */
+  scope?: string;
+  /** Time the operation was recorded (ms since epoch) */
+  timestamp: number;
+  /** Revert the operation */
+  undo: () => void;
+  /** Re-apply the operation after it was undone */
+  redo: () => void;
+}
+
+/**
+ * Operation to record, ID and timestamp are assigned by the store
+ */
+export type HistoryEntryInput = Omit<HistoryEntry, 'id' | 'timestamp'>;
+
+/**
+ * History store state interface
+ */
+export interface HistoryState {
+  /** Operations that can be undone, oldest first */
+  past: HistoryEntry[];
+  /** Operations that can be redone, next one first */
+  future: HistoryEntry[];
+  /** True while an undo/redo is being applied, so that side effects are not recorded again */
+  isApplying: boolean;
+  /** Maximum number of operations kept in the undo stack */
+  maxEntries: number;
+}
+
+/**
+ * History store actions interface
+ */
+export interface HistoryActions {
+  record: (entry: HistoryEntryInput) => void;
+  undo: () => void;
+  redo: () => void;
+  clear: () => void;
+  /** Drop the past and future operations of one scope, keeping all others */
+  clearScope: (scope: string) => void;
+  runWithoutRecording: (fn: () => void) => void;
+}
+
+/**
+ * Complete store interface combining state and actions
+ */
+export type HistoryStore = HistoryState & HistoryActions;
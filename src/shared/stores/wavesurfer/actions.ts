@@ -1,6 +1,8 @@
 import { Region } from 'wavesurfer.js/dist/plugins/regions';
 import { useWaveSurferStore, setEventListenersReset } from './store';
 import { RegionColorManager, REGION_COLORS } from './regionColors';
+import { RegionSnapshot } from './types';
+import { useHistoryStore } from '../history';
 
 /**
  * Color manager singleton for consistent color assignment
@@ -12,6 +14,18 @@ const colorManager = new RegionColorManager();
  */
 const MIN_REGION_DURATION = 0.065;
 
+/**
+ * ID of the region that shows a single point of interest (e.g. a reviewed click) in the cropped view
+ */
+export const FOCUS_REGION_ID = 'focus-region';
+
+const FOCUS_REGION_COLOR = 'rgba(0, 150, 136, 0.2)';
+
+/**
+ * History scope of region operations, dropped when the WaveSurfer instance is destroyed
+ */
+const REGION_HISTORY_SCOPE = 'regions';
+
 /**
  * Singleton region handlers to prevent duplicate event listeners
  */
@@ -19,8 +33,75 @@ let regionHandlers: {
   handleRegionCreated: (region: Region) => void;
   handleRegionUpdated: (region: Region) => void;
   handleRegionClicked: (region: Region) => void;
+  handleRegionRemoved: (region: Region) => void;
 } | null = null;
 
+/**
+ * Last known state of every region, so that updates can be reverted to the previous bounds
+ */
+const regionSnapshots = new Map<string, RegionSnapshot>();
+
+const getRegionLabel = (region: Region): string | undefined =>
+  region.content?.textContent || undefined;
+
+const takeRegionSnapshot = (region: Region): RegionSnapshot => {
+  const snapshot = {
+    id: region.id,
+    start: region.start,
+    end: region.end,
+    color: region.color,
+    label: getRegionLabel(region),
+  };
+  regionSnapshots.set(region.id, snapshot);
+  return snapshot;
+};
+
+const findRegion = (id: string): Region | undefined => {
+  const { regionsPlugin } = useWaveSurferStore.getState();
+  return regionsPlugin?.getRegions().find((region) => region.id === id);
+};
+
+/**
+ * Recreate a region from a snapshot (used by undo/redo)
+ */
+const restoreRegion = (snapshot: RegionSnapshot) => {
+  const { regionsPlugin } = useWaveSurferStore.getState();
+  if (!regionsPlugin || findRegion(snapshot.id)) return;
+
+  const { label, ...params } = snapshot;
+  regionsPlugin.addRegion({ ...params, content: label });
+};
+
+/**
+ * Remove a region by ID (used by undo/redo)
+ */
+const removeRegionById = (id: string) => {
+  const region = findRegion(id);
+  if (region) {
+    useWaveSurferStore.getState().removeRegion(region);
+  }
+};
+
+/**
+ * Move a region back to the bounds of a snapshot (used by undo/redo)
+ */
+const applyRegionBounds = (snapshot: RegionSnapshot) => {
+  const region = findRegion(snapshot.id);
+  if (!region) return;
+
+  region.setOptions({ start: snapshot.start, end: snapshot.end });
+  regionSnapshots.set(snapshot.id, { ...snapshot });
+
+  // Re-extract the audio if the moved region is the selected one
+  const { selectedRegion, selectRegion } = useWaveSurferStore.getState();
+  if (selectedRegion.region?.id === region.id) {
+    selectRegion(region);
+  }
+};
+
+const formatRegionBounds = (snapshot: RegionSnapshot) =>
+  `${snapshot.start.toFixed(3)}s – ${snapshot.end.toFixed(3)}s`;
+
 /**
  * Validate and adjust region duration to meet minimum requirements
  */
@@ -72,6 +153,12 @@ export const createStoreRegionHandlers = () => {
   const handleRegionCreated = (region: Region) => {
     console.log("Region created:", region.id);
 
+    // Regions recreated by undo/redo keep their original bounds and color
+    if (useHistoryStore.getState().isApplying) {
+      takeRegionSnapshot(region);
+      return;
+    }
+
     // Validate and adjust region if needed
     const validation = validateAndAdjustRegion(region);
 
@@ -107,6 +194,15 @@ export const createStoreRegionHandlers = () => {
     const color = colorManager.getNextColor();
     region.setOptions({ color });
 
+    // Record the creation so that it can be undone
+    const snapshot = takeRegionSnapshot(region);
+    useHistoryStore.getState().record({
+      scope: REGION_HISTORY_SCOPE,
+      label: `Create region ${formatRegionBounds(snapshot)}`,
+      undo: () => removeRegionById(snapshot.id),
+      redo: () => restoreRegion(snapshot),
+    });
+
     // Update store and trigger callbacks
     const { callbacks } = useWaveSurferStore.getState();
     if (callbacks.onRegionCreated) {
@@ -136,6 +232,18 @@ export const createStoreRegionHandlers = () => {
       }
     }
 
+    // Record the move/resize against the last known bounds
+    const previous = regionSnapshots.get(region.id);
+    const next = takeRegionSnapshot(region);
+    if (previous && (previous.start !== next.start || previous.end !== next.end)) {
+      useHistoryStore.getState().record({
+        scope: REGION_HISTORY_SCOPE,
+        label: `Update region to ${formatRegionBounds(next)}`,
+        undo: () => applyRegionBounds(previous),
+        redo: () => applyRegionBounds(next),
+      });
+    }
+
     const { selectedRegion } = useWaveSurferStore.getState();
     if (selectedRegion.region && selectedRegion.region.id === region.id) {
       // Update the selected region if this is the currently selected one
@@ -162,11 +270,32 @@ export const createStoreRegionHandlers = () => {
     useWaveSurferStore.getState().selectRegion(region);
   };
 
+  const handleRegionRemoved = (region: Region) => {
+    console.log("Region removed:", region.id);
+
+    // The focus region is managed by focusRegion/clearFocusRegion and can't be restored by undo
+    if (region.id === FOCUS_REGION_ID) {
+      regionSnapshots.delete(region.id);
+      return;
+    }
+
+    const snapshot = regionSnapshots.get(region.id) ?? takeRegionSnapshot(region);
+    regionSnapshots.delete(region.id);
+
+    useHistoryStore.getState().record({
+      scope: REGION_HISTORY_SCOPE,
+      label: `Remove region ${formatRegionBounds(snapshot)}`,
+      undo: () => restoreRegion(snapshot),
+      redo: () => removeRegionById(snapshot.id),
+    });
+  };
+
   // Store handlers in singleton to prevent duplicates
   regionHandlers = {
     handleRegionCreated,
     handleRegionUpdated,
     handleRegionClicked,
+    handleRegionRemoved,
   };
 
   return regionHandlers;
@@ -201,6 +330,7 @@ export const setupRegionEventListeners = () => {
   regionsPlugin.on('region-created', handlers.handleRegionCreated);
   regionsPlugin.on('region-updated', handlers.handleRegionUpdated);
   regionsPlugin.on('region-clicked', handlers.handleRegionClicked);
+  regionsPlugin.on('region-removed', handlers.handleRegionRemoved);
 
   // Enable drag selection with the next color
   regionsPlugin.enableDragSelection({
@@ -216,6 +346,7 @@ export const setupRegionEventListeners = () => {
       regionsPlugin.un('region-created', handlers.handleRegionCreated);
       regionsPlugin.un('region-updated', handlers.handleRegionUpdated);
       regionsPlugin.un('region-clicked', handlers.handleRegionClicked);
+      regionsPlugin.un('region-removed', handlers.handleRegionRemoved);
       eventListenersSetup = false;
       regionHandlers = null; // Reset handlers
       console.log('Region event listeners cleaned up');
@@ -227,6 +358,10 @@ export const setupRegionEventListeners = () => {
     cleanup();
     eventListenersSetup = false;
     regionHandlers = null;
+
+    // Recorded region operations refer to regions of the destroyed instance
+    regionSnapshots.clear();
+    useHistoryStore.getState().clearScope(REGION_HISTORY_SCOPE);
   });
 
   return cleanup;
@@ -237,9 +372,24 @@ export const setupRegionEventListeners = () => {
  */
 export const clearRegionsWithColorReset = () => {
   const store = useWaveSurferStore.getState();
-
-  // Clear regions using store method
-  store.clearRegions();
+  const history = useHistoryStore.getState();
+
+  // Snapshot all regions so that the whole clear can be undone in one step
+  const snapshots = (store.regionsPlugin?.getRegions() ?? [])
+    .filter((region) => region.id !== FOCUS_REGION_ID)
+    .map((region) => regionSnapshots.get(region.id) ?? takeRegionSnapshot(region));
+
+  // Clear regions using store method, recording a single operation instead of one per region
+  history.runWithoutRecording(() => store.clearRegions());
+
+  if (snapshots.length > 0) {
+    history.record({
+      scope: REGION_HISTORY_SCOPE,
+      label: `Clear ${snapshots.length} region${snapshots.length === 1 ? '' : 's'}`,
+      undo: () => snapshots.forEach(restoreRegion),
+      redo: () => snapshots.forEach((snapshot) => removeRegionById(snapshot.id)),
+    });
+  }
 
   // Reset color manager
   colorManager.reset();
@@ -290,6 +440,107 @@ export const waveSurferActions = {
     regionHandlers = null;
   },
 
+  /**
+   * Get the bounds and colors of all user regions on the main waveform (without the focus region)
+   */
+  getRegionSnapshots(): RegionSnapshot[] {
+    const { regionsPlugin } = useWaveSurferStore.getState();
+    return (regionsPlugin?.getRegions() ?? [])
+      .filter((region) => region.id !== FOCUS_REGION_ID)
+      .map((region) => ({
+        id: region.id,
+        start: region.start,
+        end: region.end,
+        color: region.color,
+        label: getRegionLabel(region),
+      }));
+  },
+
+  /**
+   * Show a time range in the cropped view through a single, non-editable focus region
+   *
+   * The focus region is moved instead of recreated on later calls and is not recorded in the
+   * undo history or included in region snapshots.
+   */
+  focusRegion(start: number, end: number) {
+    const { regionsPlugin, mainWaveSurfer, selectRegion } = useWaveSurferStore.getState();
+    if (!regionsPlugin) return;
+
+    const duration = mainWaveSurfer?.getDuration() || end;
+    const bounds = { start: Math.max(0, start), end: Math.min(duration, end) };
+
+    let region = findRegion(FOCUS_REGION_ID);
+    useHistoryStore.getState().runWithoutRecording(() => {
+      if (region) {
+        region.setOptions(bounds);
+      } else {
+        region = regionsPlugin.addRegion({
+          id: FOCUS_REGION_ID,
+          ...bounds,
+          color: FOCUS_REGION_COLOR,
+          drag: false,
+          resize: false,
+        });
+      }
+    });
+
+    if (region) {
+      selectRegion(region);
+    }
+  },
+
+  /**
+   * Remove the focus region, if any
+   */
+  clearFocusRegion() {
+    useHistoryStore.getState().runWithoutRecording(() => removeRegionById(FOCUS_REGION_ID));
+  },
+
+  /**
+   * Create a region as if it was drawn on the main waveform: it gets the next color, is recorded
+   * in the undo history and is selected
+   */
+  createRegion(start: number, end: number) {
+    const { regionsPlugin, mainWaveSurfer } = useWaveSurferStore.getState();
+    if (!regionsPlugin) return;
+
+    const duration = mainWaveSurfer?.getDuration() || end;
+    regionsPlugin.addRegion({ start: Math.max(0, start), end: Math.min(duration, end) });
+  },
+
+  /**
+   * Add labelled regions (e.g. imported from a label file), recorded as a single undoable operation
+   */
+  addRegions(ranges: Omit<RegionSnapshot, 'id' | 'color'>[]) {
+    const { regionsPlugin } = useWaveSurferStore.getState();
+    if (!regionsPlugin || ranges.length === 0) return;
+
+    const timestamp = Date.now();
+    const snapshots = ranges.map((range, index) => ({
+      ...range,
+      id: `imported_region_${timestamp}_${index}`,
+      color: colorManager.getNextColor(),
+    }));
+
+    const history = useHistoryStore.getState();
+    history.runWithoutRecording(() => snapshots.forEach(restoreRegion));
+    history.record({
+      scope: REGION_HISTORY_SCOPE,
+      label: `Import ${snapshots.length} region${snapshots.length === 1 ? '' : 's'}`,
+      undo: () => snapshots.forEach((snapshot) => removeRegionById(snapshot.id)),
+      redo: () => snapshots.forEach(restoreRegion),
+    });
+  },
+
+  /**
+   * Recreate previously saved regions without recording them in the undo history
+   */
+  restoreRegions(snapshots: RegionSnapshot[]) {
+    useHistoryStore.getState().runWithoutRecording(() => {
+      snapshots.forEach(restoreRegion);
+    });
+  },
+
   /**
    * Get current color manager state (for debugging)
    */
@@ -70,10 +70,53 @@ export async function extractAudioRegion(
   }
 }
 
+/**
+ * Decoded audio of the last requested source URL, so that the current file is only fetched and
+ * decoded once; opening another file (or blob URL) replaces it
+ */
+let cachedAudioBuffer: { src: string; buffer: Promise<AudioBuffer> } | null = null;
+
 /**
  * Convert an audio element to an AudioBuffer
+ *
+ * The decoded buffer of the current source URL is cached and shared by all callers.
+ *
+ * @param audioElement - The source audio element
+ * @param audioContext - Context used for decoding; a temporary one is created when not given
+ * @returns Promise<AudioBuffer> - Decoded audio at the sample rate of the decoding context
+ */
+export async function getAudioBuffer(
+  audioElement: HTMLAudioElement,
+  audioContext?: AudioContext
+): Promise<AudioBuffer> {
+  const src = audioElement.src;
+  if (cachedAudioBuffer?.src === src) {
+    return cachedAudioBuffer.buffer;
+  }
+
+  const decodingContext = audioContext ?? new AudioContext();
+  const decoded = decodeAudioElement(audioElement, decodingContext).finally(() => {
+    if (!audioContext) {
+      decodingContext.close();
+    }
+  });
+
+  const entry = { src, buffer: decoded };
+  cachedAudioBuffer = entry;
+  // Let a failed decode be retried
+  decoded.catch(() => {
+    if (cachedAudioBuffer === entry) {
+      cachedAudioBuffer = null;
+    }
+  });
+
+  return decoded;
+}
+
+/**
+ * Fetch and decode the audio of an audio element
  */
-async function getAudioBuffer(
+function decodeAudioElement(
   audioElement: HTMLAudioElement,
   audioContext: AudioContext
 ): Promise<AudioBuffer> {
@@ -209,6 +252,57 @@ export function validateTimeRange(
   return { isValid: true };
 }
 
+/**
+ * Read the native sample rate from the header of a WAV file
+ *
+ * Decoded audio is resampled to the rate of the AudioContext, so the header is
+ * the only reliable source for the sample resolution of the original recording.
+ *
+ * @param url - URL of the WAV file
+ * @returns Promise<number | null> - Sample rate in Hz, or null if it cannot be determined
+ */
+export async function readWavSampleRate(url: string): Promise<number | null> {
+  try {
+    // Only the header is needed; servers without range support return the full file
+    const response = await fetch(url, { headers: { Range: 'bytes=0-4095' } });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch audio header: ${response.statusText}`);
+    }
+
+    const view = new DataView(await response.arrayBuffer());
+    const readString = (offset: number, length: number) => {
+      let result = '';
+      for (let i = 0; i < length; i++) {
+        result += String.fromCharCode(view.getUint8(offset + i));
+      }
+      return result;
+    };
+
+    if (view.byteLength < 12 || readString(0, 4) !== 'RIFF' || readString(8, 4) !== 'WAVE') {
+      return null;
+    }
+
+    // Walk the chunks until the "fmt " chunk is found
+    let offset = 12;
+    while (offset + 8 <= view.byteLength) {
+      const chunkId = readString(offset, 4);
+      const chunkSize = view.getUint32(offset + 4, true);
+
+      if (chunkId === 'fmt ' && offset + 16 <= view.byteLength) {
+        return view.getUint32(offset + 12, true);
+      }
+
+      // Chunks are padded to an even number of bytes
+      offset += 8 + chunkSize + (chunkSize % 2);
+    }
+
+    return null;
+  } catch (error) {
+    console.error(`Failed to read sample rate from ${url}:`, error);
+    return null;
+  }
+}
+
 /**
  * Get estimated file size for an audio region
  */
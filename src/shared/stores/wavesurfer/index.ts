@@ -7,14 +7,16 @@ export {
   useWaveSurferConfig,
   useWaveform // Legacy compatibility
 } from './hooks';
-export { waveSurferActions } from './actions';
+export { waveSurferActions, FOCUS_REGION_ID } from './actions';
 export { RegionColorManager, REGION_COLORS } from './regionColors';
 export {
   extractAudioRegion,
+  getAudioBuffer,
   createAudioBlobURL,
   revokeBlobURL,
   validateTimeRange,
-  estimateRegionSize
+  estimateRegionSize,
+  readWavSampleRate
 } from './audioUtils';
 
 // Type exports
@@ -22,6 +24,7 @@ export type {
   WaveSurferConfig,
   SpectrogramConfig,
   SelectedRegion,
+  RegionSnapshot,
   PlaybackState,
   InitializationState,
   RegionEventCallbacks,
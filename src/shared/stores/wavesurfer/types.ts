@@ -40,6 +40,18 @@ export interface SelectedRegion {
   isPlayingRegion?: boolean;
 }
 
+/**
+ * Serializable bounds and color of a region, used to recreate it later
+ */
+export interface RegionSnapshot {
+  id: string;
+  start: number;
+  end: number;
+  color: string;
+  /** Text shown inside the region, e.g. an imported label */
+  label?: string;
+}
+
 /**
  * Playback state information
  */